@@ -1,60 +1,228 @@
+import { getHostPermissionPattern, type ProviderConfig } from '../shared/types/providers';
+import type {
+  EncodedBody,
+  EncodedPart,
+  RequestBodyEnvelope,
+  ResponseType,
+  StreamFormat,
+} from '../shared/types/messages';
+import { RESPONSE_CHUNK_BYTES } from '../shared/constants';
+import { base64ToBytes, bytesToBase64 } from '../shared/base64';
+import type { StreamChannel } from './stream-port';
+import { createEventParser } from './event-parser';
+import { createEventStreamDecoder, getExceptionStatus, toStreamEvent } from './aws-event-stream';
+
+/**
+ * Build the authentication headers for a provider and key, plus the headers its policy forces.
+ */
+export function buildAuthHeaders(
+  providerConfig: ProviderConfig,
+  apiKey: string
+): Record<string, string> {
+  return {
+    ...providerConfig.headerPolicy.forced, // e.g. anthropic-version
+    [providerConfig.authHeader]: `${providerConfig.authPrefix}${apiKey}`,
+  };
+}
+
+/**
+ * Whether the user has let the extension reach a URL's host: built-in providers' hosts are
+ * granted on install, custom, LM Studio and Bedrock hosts when the user adds them. The
+ * manifest CSP has to admit any https host for custom providers, so this is the real limit.
+ */
+export async function hasHostAccess(url: string): Promise<boolean> {
+  try {
+    return await chrome.permissions.contains({ origins: [getHostPermissionPattern(url)] });
+  } catch {
+    return false; // Not a valid URL
+  }
+}
+
+/**
+ * Error message for a request hasHostAccess turned down, naming the host the user has to
+ * grant in the popup.
+ */
+export function getHostAccessMessage(providerName: string, url: string): string {
+  let host = url;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    // Not a valid URL; name it as given
+  }
+  return (
+    `Access to ${host} (${providerName}) has not been granted in TinyLocket. ` +
+    'Grant it from the TinyLocket popup.'
+  );
+}
+
+/**
+ * Rebuild a multipart or binary body from the envelope the content script encoded.
+ * Throws on a malformed envelope.
+ */
+export function decodeRequestBody(envelope: RequestBodyEnvelope<EncodedPart>): FormData | Blob {
+  const toBlob = (part: EncodedPart, contentType = part.contentType) => {
+    if (typeof part?.base64 !== 'string') throw new Error('Invalid binary body part');
+    return new Blob([base64ToBytes(part.base64)], { type: contentType });
+  };
+
+  if (envelope?.kind === 'binary') {
+    return toBlob(envelope.data, envelope.contentType || 'application/octet-stream');
+  }
+  if (envelope?.kind === 'multipart' && Array.isArray(envelope.fields)) {
+    const form = new FormData();
+    for (const { name, value, filename } of envelope.fields) {
+      if (typeof value === 'string') {
+        form.append(String(name), value);
+      } else {
+        form.append(String(name), toBlob(value), filename ?? 'blob');
+      }
+    }
+    return form;
+  }
+  throw new Error('Invalid request body');
+}
+
+/**
+ * Build fetch options for a JSON, FormData or binary (Blob) body.
+ * FormData sets its own multipart content type with the boundary.
+ */
+function buildRequestInit(
+  method: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): RequestInit {
+  const requestHeaders: Record<string, string> = {
+    'content-type': 'application/json', // Page headers arrive lowercased
+    ...headers,
+  };
+
+  let requestBody: BodyInit | undefined;
+  if (body instanceof FormData) {
+    delete requestHeaders['content-type'];
+    requestBody = body;
+  } else if (body instanceof Blob) {
+    requestHeaders['content-type'] = body.type || 'application/octet-stream';
+    requestBody = body;
+  } else {
+    requestBody = body ? JSON.stringify(body) : undefined;
+  }
+
+  return { method, headers: requestHeaders, body: requestBody, signal };
+}
+
+// Content types delivered as text when the page doesn't ask for a response type
+const TEXT_CONTENT_TYPE = /^text\/|json|xml|javascript|x-www-form-urlencoded/i;
+
+/**
+ * Response type implied by a content type: JSON, text, or binary for audio, images and the like.
+ */
+function getDefaultResponseType(contentType: string): ResponseType {
+  if (contentType.includes('application/json')) return 'json';
+  if (!contentType || TEXT_CONTENT_TYPE.test(contentType)) return 'text';
+  return 'arrayBuffer';
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Base64-encode a binary body in RESPONSE_CHUNK_BYTES slices.
+ */
+function encodeResponseBody(bytes: Uint8Array, contentType: string): EncodedBody {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += RESPONSE_CHUNK_BYTES) {
+    chunks.push(bytesToBase64(bytes.subarray(i, i + RESPONSE_CHUNK_BYTES)));
+  }
+  return { chunks, contentType };
+}
+
 /**
  * Make a regular (non-streaming) API request.
+ * The body is returned as the page's responseType, or as the content type implies;
+ * binary bodies are base64-encoded. `json` holds the decoded body of any JSON
+ * response, for usage tracking, whatever the page asked for.
  */
 export async function makeApiRequest(
   url: string,
   method: string,
   headers: Record<string, string>,
-  body?: unknown
-): Promise<{ status: number; headers: Record<string, string>; body: unknown }> {
-  const response = await fetch(url, {
-    method,
-    headers: {
-      'Content-Type': 'application/json',
-      ...headers,
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
+  body?: unknown,
+  signal?: AbortSignal,
+  responseType?: ResponseType
+): Promise<{
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+  bodyEncoding?: 'base64';
+  json?: unknown;
+}> {
+  const response = await fetch(url, buildRequestInit(method, headers, body, signal));
 
   const responseHeaders: Record<string, string> = {};
   response.headers.forEach((value, key) => {
     responseHeaders[key] = value;
   });
 
-  let responseBody: unknown;
-  const contentType = response.headers.get('content-type');
-  if (contentType?.includes('application/json')) {
-    responseBody = await response.json();
-  } else {
-    responseBody = await response.text();
+  const contentType = response.headers.get('content-type') ?? '';
+  const type = responseType ?? getDefaultResponseType(contentType);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const text = () => new TextDecoder().decode(bytes);
+  const json = contentType.includes('json') ? parseJson(text()) : undefined;
+
+  if (type === 'arrayBuffer' || type === 'blob') {
+    return {
+      status: response.status,
+      headers: responseHeaders,
+      body: encodeResponseBody(bytes, contentType),
+      bodyEncoding: 'base64',
+      json,
+    };
   }
 
   return {
     status: response.status,
     headers: responseHeaders,
-    body: responseBody,
+    body: type === 'json' ? (json ?? parseJson(text())) : text(),
+    json,
   };
 }
 
+/**
+ * A stream cut off after the provider had responded, by a cancel, timeout or read error.
+ * Carries the text streamed so far, so the usage it reported can still be counted.
+ */
+export class StreamInterruptedError extends Error {
+  constructor(
+    readonly partial: { status: number; headers: Record<string, string>; body: string },
+    cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : 'Stream interrupted');
+    this.name = 'StreamInterruptedError';
+  }
+}
+
 /**
  * Make a streaming API request.
- * Streams chunks back to the content script via chrome.tabs.sendMessage.
+ * Streams chunks back to the originating tab over its stream port, either as
+ * raw text or, for the 'sse' format, as parsed events. The returned body is the
+ * streamed text (SSE text for AWS event streams), for usage tracking.
  */
 export async function makeStreamingRequest(
   url: string,
   method: string,
   headers: Record<string, string>,
   body: unknown,
-  requestId: string
+  stream: StreamChannel,
+  signal: AbortSignal,
+  format: StreamFormat = 'text'
 ): Promise<{ status: number; headers: Record<string, string>; body: unknown }> {
-  const response = await fetch(url, {
-    method,
-    headers: {
-      'Content-Type': 'application/json',
-      ...headers,
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
+  const response = await fetch(url, buildRequestInit(method, headers, body, signal));
 
   const responseHeaders: Record<string, string> = {};
   response.headers.forEach((value, key) => {
@@ -76,6 +244,11 @@ export async function makeStreamingRequest(
 
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
+  const contentType = response.headers.get('content-type');
+  const eventStream = contentType?.includes('application/vnd.amazon.eventstream')
+    ? createEventStreamDecoder()
+    : null;
+  const parser = format === 'sse' && !eventStream ? createEventParser(contentType) : null;
   let fullContent = '';
 
   try {
@@ -83,21 +256,56 @@ export async function makeStreamingRequest(
       const { done, value } = await reader.read();
 
       if (done) {
+        for (const event of parser?.flush() ?? []) {
+          await stream.writeEvent(event);
+        }
         // Send final chunk
-        await broadcastStreamChunk(requestId, '', true);
+        await stream.write('', true);
         break;
       }
 
+      // Bedrock's binary event stream: pages get the decoded events, as events for
+      // the 'sse' format or one JSON line each as text. The body is kept as SSE text
+      // so usage can be read from it like any other stream.
+      if (eventStream) {
+        for (const event of eventStream.push(value).map(toStreamEvent)) {
+          const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+
+          // An exception ends the stream as a failed response, in either format
+          if (event.event === 'error') {
+            if (format === 'sse') await stream.writeEvent(event);
+            await reader.cancel().catch(() => {});
+            return { status: getExceptionStatus(event), headers: responseHeaders, body: data };
+          }
+
+          fullContent += `event: ${event.event}\ndata: ${data}\n\n`;
+          if (format === 'sse') {
+            await stream.writeEvent(event);
+          } else {
+            await stream.write(`${data}\n`);
+          }
+        }
+        continue;
+      }
+
       const chunk = decoder.decode(value, { stream: true });
       fullContent += chunk;
 
-      // Send chunk to all tabs
-      await broadcastStreamChunk(requestId, chunk, false);
+      if (parser) {
+        for (const event of parser.push(chunk)) {
+          await stream.writeEvent(event);
+        }
+      } else {
+        await stream.write(chunk);
+      }
     }
   } catch (error) {
-    // Send error as final chunk
-    await broadcastStreamChunk(requestId, '', true);
-    throw error;
+    // Stop reading from the provider; the final response carries the error
+    await reader.cancel().catch(() => {});
+    throw new StreamInterruptedError(
+      { status: response.status, headers: responseHeaders, body: fullContent },
+      error
+    );
   }
 
   return {
@@ -106,29 +314,3 @@ export async function makeStreamingRequest(
     body: fullContent,
   };
 }
-
-/**
- * Broadcast a stream chunk to all tabs.
- */
-async function broadcastStreamChunk(
-  requestId: string,
-  chunk: string,
-  done: boolean
-): Promise<void> {
-  const tabs = await chrome.tabs.query({});
-
-  for (const tab of tabs) {
-    if (tab.id) {
-      try {
-        await chrome.tabs.sendMessage(tab.id, {
-          type: 'TINYLOCKET_STREAM_CHUNK',
-          requestId,
-          chunk,
-          done,
-        });
-      } catch {
-        // Tab might not have content script, ignore
-      }
-    }
-  }
-}
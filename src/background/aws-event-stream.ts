@@ -0,0 +1,183 @@
+import { base64ToBytes } from '../shared/base64';
+import type { StreamEvent } from '../shared/types/messages';
+
+/**
+ * Decoder for the AWS event stream encoding (application/vnd.amazon.eventstream) Bedrock
+ * streams responses in: length-prefixed binary messages with typed headers and CRC32 checksums.
+ */
+
+export interface EventStreamMessage {
+  headers: Record<string, string | number | boolean>;
+  payload: Uint8Array;
+}
+
+// Total length, headers length, prelude CRC
+const PRELUDE_BYTES = 12;
+const CRC_BYTES = 4;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Read a message's headers. Only the value types Bedrock sends are kept as values;
+ * byte arrays, timestamps and UUIDs are skipped.
+ */
+function decodeHeaders(view: DataView, start: number, end: number): EventStreamMessage['headers'] {
+  const headers: EventStreamMessage['headers'] = {};
+  const decoder = new TextDecoder();
+  let offset = start;
+
+  while (offset < end) {
+    const nameLength = view.getUint8(offset);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 1, nameLength));
+    offset += 1 + nameLength;
+    const type = view.getUint8(offset++);
+
+    switch (type) {
+      case 0:
+      case 1:
+        headers[name] = type === 0;
+        break;
+      case 2:
+        headers[name] = view.getInt8(offset);
+        offset += 1;
+        break;
+      case 3:
+        headers[name] = view.getInt16(offset);
+        offset += 2;
+        break;
+      case 4:
+        headers[name] = view.getInt32(offset);
+        offset += 4;
+        break;
+      case 5:
+      case 8:
+        offset += 8;
+        break;
+      case 6:
+      case 7: {
+        const length = view.getUint16(offset);
+        if (type === 7) {
+          headers[name] = decoder.decode(
+            new Uint8Array(view.buffer, view.byteOffset + offset + 2, length)
+          );
+        }
+        offset += 2 + length;
+        break;
+      }
+      case 9:
+        offset += 16;
+        break;
+      default:
+        throw new Error(`Invalid event stream header type: ${type}`);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Create a decoder that splits streamed bytes into messages. Bytes of a message
+ * split across reads are held until the rest arrives; checksums are verified.
+ */
+export function createEventStreamDecoder(): { push(bytes: Uint8Array): EventStreamMessage[] } {
+  let buffer = new Uint8Array(0);
+
+  return {
+    push(bytes) {
+      const joined = new Uint8Array(buffer.length + bytes.length);
+      joined.set(buffer);
+      joined.set(bytes, buffer.length);
+      buffer = joined;
+
+      const messages: EventStreamMessage[] = [];
+      while (buffer.length >= PRELUDE_BYTES) {
+        const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        const totalLength = view.getUint32(0);
+        const headersLength = view.getUint32(4);
+        if (
+          view.getUint32(8) !== crc32(buffer.subarray(0, 8)) ||
+          totalLength < PRELUDE_BYTES + headersLength + CRC_BYTES
+        ) {
+          throw new Error('Invalid event stream message prelude');
+        }
+        if (buffer.length < totalLength) break;
+
+        const messageEnd = totalLength - CRC_BYTES;
+        if (view.getUint32(messageEnd) !== crc32(buffer.subarray(0, messageEnd))) {
+          throw new Error('Event stream message checksum mismatch');
+        }
+        const headersEnd = PRELUDE_BYTES + headersLength;
+        messages.push({
+          headers: decodeHeaders(view, PRELUDE_BYTES, headersEnd),
+          payload: buffer.slice(headersEnd, messageEnd),
+        });
+        buffer = buffer.slice(totalLength);
+      }
+      return messages;
+    },
+  };
+}
+
+// HTTP statuses Bedrock answers with for the same errors outside a stream
+const EXCEPTION_STATUSES: Record<string, number> = {
+  validationException: 400,
+  modelTimeoutException: 408,
+  modelStreamErrorException: 424,
+  throttlingException: 429,
+  internalServerException: 500,
+  serviceUnavailableException: 503,
+};
+
+/**
+ * Status to report for a stream that ended with an exception event (see toStreamEvent).
+ */
+export function getExceptionStatus(event: StreamEvent): number {
+  const type = (event.data as { type?: unknown } | null)?.type;
+  return (typeof type === 'string' && EXCEPTION_STATUSES[type]) || 500;
+}
+
+/**
+ * Turn a Bedrock stream message into a stream event. Chunks carry the model's own
+ * JSON event base64-encoded in `bytes`. Exceptions become 'error' events naming the
+ * :exception-type, so pages see them as failures rather than model output.
+ */
+export function toStreamEvent(message: EventStreamMessage): StreamEvent {
+  const { headers } = message;
+  const text = new TextDecoder().decode(message.payload);
+
+  let data: unknown = text;
+  try {
+    data = JSON.parse(text);
+    const bytes = (data as { bytes?: unknown } | null)?.bytes;
+    if (typeof bytes === 'string') {
+      data = JSON.parse(new TextDecoder().decode(base64ToBytes(bytes)));
+    }
+  } catch {
+    // Not JSON; pass the payload text through
+  }
+
+  if (headers[':message-type'] === 'exception') {
+    const details = data as { message?: unknown } | null;
+    return {
+      event: 'error',
+      data: {
+        type: String(headers[':exception-type'] ?? 'exception'),
+        message: typeof details?.message === 'string' ? details.message : text,
+      },
+    };
+  }
+  return { event: String(headers[':event-type'] ?? 'message'), data };
+}
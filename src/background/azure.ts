@@ -0,0 +1,57 @@
+import type { AzureKeySettings } from '../shared/types/storage';
+import { AZURE_DEFAULT_API_VERSION } from '../shared/constants';
+import { getRequestModel } from './usage';
+
+// OpenAI operations Azure serves per deployment, at /openai/deployments/{deployment}/{operation}
+const DEPLOYMENT_OPERATIONS = [
+  'chat/completions',
+  'completions',
+  'embeddings',
+  'images/generations',
+  'audio/speech',
+  'audio/transcriptions',
+  'audio/translations',
+];
+
+export type AzureUrl = { ok: true; url: string } | { ok: false; message: string };
+
+/**
+ * Rewrite an OpenAI-style endpoint (e.g. /v1/chat/completions) to the Azure resource URL
+ * of the deployment serving the requested model. The key's api-version applies unless
+ * the endpoint carries its own.
+ */
+export function buildAzureUrl(
+  resourceUrl: string,
+  endpoint: string,
+  body: unknown,
+  settings: AzureKeySettings | undefined
+): AzureUrl {
+  const queryStart = endpoint.indexOf('?');
+  const path = queryStart === -1 ? endpoint : endpoint.slice(0, queryStart);
+  const params = new URLSearchParams(queryStart === -1 ? '' : endpoint.slice(queryStart + 1));
+  if (!params.has('api-version')) {
+    params.set('api-version', settings?.apiVersion || AZURE_DEFAULT_API_VERSION);
+  }
+
+  const operation = path.match(/^\/v1\/(.+)$/)?.[1];
+  let azurePath: string;
+  if (operation === 'models') {
+    azurePath = '/openai/models';
+  } else if (operation && DEPLOYMENT_OPERATIONS.includes(operation)) {
+    const model = getRequestModel(body, undefined);
+    if (!model) {
+      return { ok: false, message: 'A model is required to pick the Azure OpenAI deployment' };
+    }
+    const deployments = settings?.deployments ?? {};
+    const mapped = Object.prototype.hasOwnProperty.call(deployments, model);
+    const deployment = mapped ? deployments[model] : model;
+    if (!/^[\w.-]+$/.test(deployment) || /^\.+$/.test(deployment)) {
+      return { ok: false, message: `Invalid Azure OpenAI deployment name: ${deployment}` };
+    }
+    azurePath = `/openai/deployments/${deployment}/${operation}`;
+  } else {
+    return { ok: false, message: `${path} is not available on Azure OpenAI` };
+  }
+
+  return { ok: true, url: `${resourceUrl.replace(/\/+$/, '')}${azurePath}?${params}` };
+}
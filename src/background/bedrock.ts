@@ -0,0 +1,102 @@
+import type { ApiKeyEntry } from '../shared/types/storage';
+import { signRequest } from './sigv4';
+
+// Runtime (inference) and control plane hosts share the 'bedrock' signing name
+export type BedrockApi = 'bedrock-runtime' | 'bedrock';
+
+const SIGNING_SERVICE = 'bedrock';
+const REGION_PATTERN = /^[a-z]{2}(-[a-z]+)+-\d+$/;
+
+export type BedrockRequest =
+  | { ok: true; url: string; headers: Record<string, string>; body?: Blob }
+  | { ok: false; message: string };
+
+/**
+ * Re-encode each path segment the way AWS SDKs send it (e.g. the ':' of model
+ * ids as %3A), so the path fetch sends is the one that was signed.
+ */
+function normalizePath(path: string): string {
+  return path
+    .split('/')
+    .map((segment) => encodeURIComponent(decodeURIComponent(segment)))
+    .join('/');
+}
+
+/**
+ * Serialize a request body to the bytes that will be signed and sent. The content type
+ * is lowercased, as Blob types are.
+ */
+async function serializeBody(
+  body: unknown,
+  contentType: string
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; contentType: string } | undefined> {
+  if (body === undefined || body === null) return undefined;
+  if (body instanceof FormData) {
+    throw new Error('Bedrock does not accept multipart bodies');
+  }
+  if (body instanceof Blob) {
+    return {
+      bytes: new Uint8Array(await body.arrayBuffer()),
+      contentType: body.type || 'application/octet-stream',
+    };
+  }
+  return {
+    bytes: new TextEncoder().encode(JSON.stringify(body)),
+    contentType: contentType.toLowerCase(),
+  };
+}
+
+/**
+ * Build a SigV4-signed request to Bedrock in the key's region. The body is returned
+ * as a Blob of the signed bytes, so it reaches the provider exactly as signed.
+ */
+export async function signBedrockRequest(
+  keyEntry: ApiKeyEntry,
+  endpoint: string,
+  method: string,
+  headers: Record<string, string>,
+  body: unknown,
+  api: BedrockApi = 'bedrock-runtime'
+): Promise<BedrockRequest> {
+  const region = keyEntry.aws?.region ?? '';
+  if (!REGION_PATTERN.test(region)) {
+    return { ok: false, message: `Invalid AWS region: ${region || '(none)'}` };
+  }
+  if (!keyEntry.aws?.accessKeyId) {
+    return { ok: false, message: 'An AWS access key ID is required for Bedrock' };
+  }
+
+  const queryStart = endpoint.indexOf('?');
+  const path = queryStart === -1 ? endpoint : endpoint.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : endpoint.slice(queryStart);
+
+  let url: string;
+  let serialized: Awaited<ReturnType<typeof serializeBody>>;
+  try {
+    url = `https://${api}.${region}.amazonaws.com${normalizePath(path)}${query}`;
+    serialized = await serializeBody(body, headers['content-type'] || 'application/json');
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : 'Invalid request body' };
+  }
+
+  const requestHeaders = { ...headers };
+  delete requestHeaders['content-type'];
+  if (serialized) requestHeaders['content-type'] = serialized.contentType;
+
+  const signed = await signRequest(
+    { method, url, headers: requestHeaders, body: serialized?.bytes },
+    {
+      accessKeyId: keyEntry.aws.accessKeyId,
+      secretAccessKey: keyEntry.apiKey,
+      sessionToken: keyEntry.sessionToken,
+    },
+    { region, service: SIGNING_SERVICE }
+  );
+
+  return {
+    ok: true,
+    url,
+    headers: { ...requestHeaders, ...signed },
+    body: serialized && new Blob([serialized.bytes], { type: serialized.contentType }),
+  };
+}
@@ -0,0 +1,101 @@
+import { storageService } from '../shared/services';
+import type { LlmProvider } from '../shared/types/providers';
+import {
+  budgetApplies,
+  describeBudgetScope,
+  formatBudgetAmount,
+  getBudgetWindow,
+  getCurrentUsage,
+  type BudgetUsage,
+} from '../shared/types/budgets';
+
+export type BudgetCheck = { ok: true } | { ok: false; message: string; resetAt: number };
+
+// Usage updates are read-modify-write on storage; run them one at a time so
+// concurrent requests can't both pass a budget with one request left.
+let pending: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = pending.then(task);
+  pending = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Check the budgets covering a request and, if none is exhausted, count the request.
+ * Spend budgets are exhausted once the recorded spend reaches the limit, since the
+ * cost of a request is only known after it completes.
+ */
+export function reserveBudget(domain: string, provider: LlmProvider): Promise<BudgetCheck> {
+  return serialized(async () => {
+    const budgets = (await storageService.getBudgets()).filter((b) =>
+      budgetApplies(b, domain, provider)
+    );
+    if (budgets.length === 0) return { ok: true };
+
+    const stored = await storageService.getBudgetUsage();
+    const now = Date.now();
+    const usage: Record<string, BudgetUsage> = {};
+
+    for (const budget of budgets) {
+      const current = getCurrentUsage(budget, stored[budget.id], now);
+      const used = budget.metric === 'cost' ? current.cost : current.requests;
+      if (budget.metric === 'cost' ? used >= budget.limit : used + 1 > budget.limit) {
+        const { resetAt } = getBudgetWindow(budget.period, now);
+        const customProviders = await storageService.getCustomProviders();
+        return {
+          ok: false,
+          resetAt,
+          message:
+            `Budget for ${describeBudgetScope(budget, customProviders)} exceeded ` +
+            `(${formatBudgetAmount(budget.metric, used)} of ` +
+            `${formatBudgetAmount(budget.metric, budget.limit)} per ${budget.period}). ` +
+            `Resets at ${new Date(resetAt).toLocaleString()}.`,
+        };
+      }
+      usage[budget.id] = { ...current, requests: current.requests + 1 };
+    }
+
+    await saveUsage(stored, usage);
+    return { ok: true };
+  });
+}
+
+/**
+ * Add the estimated cost of a completed request to the budgets covering it.
+ */
+export function recordBudgetSpend(
+  domain: string,
+  provider: LlmProvider,
+  cost: number
+): Promise<void> {
+  return serialized(async () => {
+    const budgets = (await storageService.getBudgets()).filter((b) =>
+      budgetApplies(b, domain, provider)
+    );
+    if (budgets.length === 0 || cost <= 0) return;
+
+    const stored = await storageService.getBudgetUsage();
+    const now = Date.now();
+    const usage: Record<string, BudgetUsage> = {};
+    for (const budget of budgets) {
+      const current = getCurrentUsage(budget, stored[budget.id], now);
+      usage[budget.id] = { ...current, cost: current.cost + cost };
+    }
+    await saveUsage(stored, usage);
+  });
+}
+
+/**
+ * Merge updated usage into the stored usage, dropping budgets that have been deleted.
+ */
+async function saveUsage(
+  stored: Record<string, BudgetUsage>,
+  updates: Record<string, BudgetUsage>
+): Promise<void> {
+  const ids = new Set((await storageService.getBudgets()).map((b) => b.id));
+  const usage = Object.fromEntries(
+    Object.entries({ ...stored, ...updates }).filter(([id]) => ids.has(id))
+  );
+  await storageService.saveBudgetUsage(usage);
+}
@@ -0,0 +1,60 @@
+import { matchesEndpointPattern, type ProviderConfig } from '../shared/types/providers';
+import type { WhitelistedDomain } from '../shared/types/storage';
+
+export type EndpointCheck = { ok: true } | { ok: false; message: string };
+
+/**
+ * Find why an endpoint could escape the provider's base URL: absolute or
+ * protocol-relative URLs, backslashes, dot segments (also percent-encoded),
+ * fragments and control characters. Returns null for a plain path.
+ */
+function findUnsafePath(endpoint: string): string | null {
+  if (!endpoint.startsWith('/') || endpoint.startsWith('//')) {
+    return 'Endpoint must be a path starting with a single /';
+  }
+  if (/[\\#\s\u0000-\u001f\u007f]/.test(endpoint)) {
+    return 'Endpoint contains characters that are not allowed';
+  }
+
+  const path = endpoint.split('?')[0];
+  if (/%(2e|2f|5c)/i.test(path)) {
+    return 'Endpoint path contains encoded dots or slashes';
+  }
+  if (path.split('/').some((segment) => segment === '.' || segment === '..')) {
+    return 'Endpoint path contains . or .. segments';
+  }
+  return null;
+}
+
+/**
+ * Check a page's endpoint and method against the provider's allowlist,
+ * extended by what the user allowed for the requesting domain.
+ */
+export function checkEndpoint(
+  providerConfig: ProviderConfig,
+  domainEntry: WhitelistedDomain,
+  endpoint: unknown,
+  method: string
+): EndpointCheck {
+  if (typeof endpoint !== 'string') {
+    return { ok: false, message: 'Endpoint is required' };
+  }
+
+  const unsafe = findUnsafePath(endpoint);
+  if (unsafe) return { ok: false, message: unsafe };
+
+  const path = endpoint.split('?')[0];
+  const patterns = [
+    ...providerConfig.allowedEndpoints,
+    ...(domainEntry.allowedEndpoints?.[providerConfig.id] ?? []),
+  ];
+  if (!patterns.some((pattern) => matchesEndpointPattern(pattern, method, path))) {
+    return {
+      ok: false,
+      message:
+        `${method.toUpperCase()} ${path} is not allowed for ${providerConfig.name}. ` +
+        `Allow it for ${domainEntry.domain} in the TinyLocket extension.`,
+    };
+  }
+  return { ok: true };
+}
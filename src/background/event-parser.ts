@@ -0,0 +1,179 @@
+import type { StreamEvent } from '../shared/types/messages';
+
+/**
+ * Incremental parser that turns decoded response text into complete events.
+ */
+export interface StreamEventParser {
+  push(text: string): StreamEvent[];
+  flush(): StreamEvent[];
+  readonly done: boolean; // Set once an end-of-stream sentinel has been seen
+}
+
+/**
+ * Pick a parser for a streaming response: Server-Sent Events, or the streamed
+ * JSON array Gemini returns from streamGenerateContent without alt=sse.
+ */
+export function createEventParser(contentType: string | null): StreamEventParser {
+  return contentType?.includes('application/json') ? new JsonArrayParser() : new SseParser();
+}
+
+/**
+ * JSON-decode event data when possible, otherwise keep the raw text.
+ */
+function decodeData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Server-Sent Events parser (event/data/id fields, blank line dispatch).
+ * The OpenAI-style `data: [DONE]` sentinel ends the stream and is not emitted.
+ */
+export class SseParser implements StreamEventParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+  done = false;
+
+  push(text: string): StreamEvent[] {
+    this.buffer += text;
+    const events: StreamEvent[] = [];
+
+    // Lines end with CRLF, LF or CR; a trailing CR may be the first half of a CRLF
+    const lines = this.buffer.split(/\r\n|\n|\r(?!$)/);
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  flush(): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    const rest = this.buffer.replace(/\r$/, '');
+    this.buffer = '';
+    for (const line of [rest, '']) {
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private processLine(line: string): StreamEvent | null {
+    if (this.done) return null;
+
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null; // Comment / keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): StreamEvent | null {
+    const eventType = this.eventType || 'message';
+    const dataLines = this.dataLines;
+    this.eventType = '';
+    this.dataLines = [];
+
+    if (dataLines.length === 0) return null;
+
+    const data = dataLines.join('\n');
+    if (data.trim() === '[DONE]') {
+      this.done = true;
+      return null;
+    }
+
+    const event: StreamEvent = { event: eventType, data: decodeData(data) };
+    if (this.lastEventId) event.id = this.lastEventId;
+    return event;
+  }
+}
+
+/**
+ * Parser for a top-level JSON array streamed element by element.
+ * Each element becomes a 'message' event.
+ */
+export class JsonArrayParser implements StreamEventParser {
+  private buffer = '';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private elementStart = -1;
+  private scanned = 0;
+  done = false;
+
+  push(text: string): StreamEvent[] {
+    this.buffer += text;
+    const events: StreamEvent[] = [];
+
+    for (let i = this.scanned; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        // Depth 1 is the outer array; elements start one level below
+        if (this.depth === 1) this.elementStart = i;
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 1 && this.elementStart !== -1) {
+          events.push({
+            event: 'message',
+            data: decodeData(this.buffer.slice(this.elementStart, i + 1)),
+          });
+          this.elementStart = -1;
+        } else if (this.depth === 0) {
+          this.done = true;
+        }
+      }
+    }
+
+    // Keep only the unfinished element
+    if (this.elementStart === -1) {
+      this.buffer = '';
+      this.scanned = 0;
+    } else {
+      this.buffer = this.buffer.slice(this.elementStart);
+      this.scanned = this.buffer.length;
+      this.elementStart = 0;
+    }
+    return events;
+  }
+
+  flush(): StreamEvent[] {
+    return [];
+  }
+}
@@ -0,0 +1,37 @@
+import type { ProviderConfig } from '../shared/types/providers';
+
+export interface FilteredHeaders {
+  headers: Record<string, string>; // Lowercase names
+  rejected: string[]; // Names as the page sent them
+}
+
+/**
+ * Filter page-supplied headers through a provider's header policy.
+ * Stripped, forced, credential and non-allowlisted headers are rejected;
+ * the forced and auth headers are added later by buildAuthHeaders.
+ */
+export function applyHeaderPolicy(
+  providerConfig: ProviderConfig,
+  headers: Record<string, unknown> | undefined
+): FilteredHeaders {
+  const { allowed, forced, stripped } = providerConfig.headerPolicy;
+  const authHeader = providerConfig.authHeader.toLowerCase();
+  const result: FilteredHeaders = { headers: {}, rejected: [] };
+
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    const key = name.toLowerCase();
+    const passes =
+      typeof value === 'string' &&
+      allowed.includes(key) &&
+      !stripped.includes(key) &&
+      !Object.keys(forced).some((header) => header.toLowerCase() === key) &&
+      key !== authHeader;
+
+    if (passes) {
+      result.headers[key] = value;
+    } else {
+      result.rejected.push(name);
+    }
+  }
+  return result;
+}
@@ -1,12 +1,15 @@
 import { sessionService } from '../shared/services';
 import { handleMessage } from './message-handler';
+import { handleStreamPort } from './stream-port';
 
-// Initialize session service
+// Initialize session service (restores a persisted unlocked session, if any)
 sessionService.init();
 
 // Listen for messages from content scripts
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  handleMessage(message, sender)
+  sessionService
+    .whenReady()
+    .then(() => handleMessage(message, sender))
     .then(sendResponse)
     .catch((error) => {
       console.error('Error handling message:', error);
@@ -17,6 +20,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   return true;
 });
 
+// Streaming requests each open their own port from the requesting tab
+chrome.runtime.onConnect.addListener(handleStreamPort);
+
 // Handle extension install/update
 chrome.runtime.onInstalled.addListener((details) => {
   if (details.reason === 'install') {
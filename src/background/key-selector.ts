@@ -0,0 +1,67 @@
+import { vaultService } from '../shared/services';
+import type { LlmProvider } from '../shared/types/providers';
+import type { ApiKeyEntry, KeySelectionStrategy, WhitelistedDomain } from '../shared/types/storage';
+
+// Round-robin position per provider (in memory; resets when the worker restarts)
+const roundRobinCursor = new Map<LlmProvider, number>();
+
+export type KeySelection =
+  | { ok: true; keys: ApiKeyEntry[] }
+  | { ok: false; message: string };
+
+/**
+ * Pick the keys to try for a request, in order.
+ * A per-domain assignment pins a single key, and a page's keyId must agree with it.
+ * Otherwise a keyId picks any key not pinned to another domain, and without one
+ * the strategy decides the order (only 'failover' tries more than one).
+ */
+export function selectKeys(
+  provider: LlmProvider,
+  strategy: KeySelectionStrategy,
+  domain: WhitelistedDomain | undefined,
+  allDomains: WhitelistedDomain[],
+  keyId?: string
+): KeySelection {
+  const assignedId = domain?.keyAssignments?.[provider];
+  const assigned = assignedId ? vaultService.getKeyById(assignedId) : undefined;
+  if (assigned && assigned.provider === provider) {
+    if (keyId && keyId !== assigned.id) {
+      return { ok: false, message: `Key ${keyId} is not the key assigned to this domain` };
+    }
+    return { ok: true, keys: [assigned] };
+  }
+
+  if (keyId) {
+    const key = vaultService.getKeyById(keyId);
+    if (!key || key.provider !== provider) {
+      return { ok: false, message: `Unknown key for ${provider}: ${keyId}` };
+    }
+    const pinnedElsewhere = allDomains.some(
+      (d) => d.domain !== domain?.domain && d.keyAssignments?.[provider] === keyId
+    );
+    if (pinnedElsewhere) {
+      return { ok: false, message: `Key ${keyId} is assigned to another domain` };
+    }
+    return { ok: true, keys: [key] };
+  }
+
+  const keys = vaultService.getKeysForProvider(provider);
+  if (keys.length === 0) {
+    return {
+      ok: false,
+      message: `No API key configured for ${provider}. Add one in the TinyLocket extension.`,
+    };
+  }
+
+  switch (strategy) {
+    case 'round_robin': {
+      const cursor = (roundRobinCursor.get(provider) ?? 0) % keys.length;
+      roundRobinCursor.set(provider, cursor + 1);
+      return { ok: true, keys: [keys[cursor]] };
+    }
+    case 'failover':
+      return { ok: true, keys };
+    default:
+      return { ok: true, keys: [keys[0]] };
+  }
+}
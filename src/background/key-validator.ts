@@ -0,0 +1,127 @@
+import { storageService, vaultService } from '../shared/services';
+import { getProviderById } from '../shared/types/providers';
+import type { KeyHealthStatus, KeyValidationResult } from '../shared/types/storage';
+import {
+  buildAuthHeaders,
+  getHostAccessMessage,
+  hasHostAccess,
+  makeApiRequest,
+} from './api-proxy';
+import { buildAzureUrl } from './azure';
+import { signBedrockRequest } from './bedrock';
+
+// Error text some providers use for keys that existed but were disabled
+const REVOKED_PATTERN = /revoked|deactivated|disabled|suspended/i;
+
+/**
+ * Call the provider's testEndpoint with a stored key and record the result on the key.
+ * Test endpoints are read-only listings, or requests rejected before doing any work,
+ * so validation never incurs usage charges.
+ */
+export async function validateKey(id: string): Promise<KeyValidationResult> {
+  const keyEntry = vaultService.getKeyById(id);
+  if (!keyEntry) {
+    throw new Error(`Unknown key: ${id}`);
+  }
+
+  const providerConfig = getProviderById(
+    keyEntry.provider,
+    await storageService.getCustomProviders()
+  );
+  if (!providerConfig) {
+    throw new Error(`Unknown provider: ${keyEntry.provider}`);
+  }
+
+  let testUrl: string;
+  let testHeaders = buildAuthHeaders(providerConfig, keyEntry.apiKey);
+  if (providerConfig.type === 'bedrock') {
+    // Listing foundation models is read-only, like every test endpoint
+    const signed = await signBedrockRequest(
+      keyEntry,
+      providerConfig.testEndpoint,
+      'GET',
+      {},
+      undefined,
+      'bedrock'
+    );
+    if (!signed.ok) throw new Error(signed.message);
+    testUrl = signed.url;
+    testHeaders = signed.headers;
+  } else {
+    const baseUrl = providerConfig.requiresEndpointUrl
+      ? keyEntry.endpointUrl
+      : providerConfig.baseUrl;
+    if (!baseUrl) {
+      throw new Error('Custom endpoint URL is required for this provider');
+    }
+
+    testUrl = `${baseUrl}${providerConfig.testEndpoint}`;
+    if (providerConfig.type === 'azure_openai') {
+      const azure = buildAzureUrl(baseUrl, providerConfig.testEndpoint, undefined, keyEntry.azure);
+      if (!azure.ok) throw new Error(azure.message);
+      testUrl = azure.url;
+    }
+  }
+  if (!(await hasHostAccess(testUrl))) {
+    throw new Error(getHostAccessMessage(providerConfig.name, testUrl));
+  }
+
+  let result: KeyValidationResult;
+  try {
+    const method = providerConfig.testMethod ?? 'GET';
+    const response = await makeApiRequest(
+      testUrl,
+      method,
+      testHeaders,
+      method === 'POST' ? {} : undefined
+    );
+    const status = classifyResponse(response.status, response.body, method);
+    result = {
+      status,
+      httpStatus: response.status,
+      message: status === 'valid' ? undefined : extractErrorMessage(response.body),
+      validatedAt: Date.now(),
+    };
+  } catch (error) {
+    result = {
+      status: 'unreachable',
+      message: error instanceof Error ? error.message : 'Network request failed',
+      validatedAt: Date.now(),
+    };
+  }
+
+  await vaultService.recordValidation(id, result);
+  return result;
+}
+
+/**
+ * Map a test endpoint response to a key health status.
+ */
+function classifyResponse(status: number, body: unknown, method: 'GET' | 'POST'): KeyHealthStatus {
+  if (status >= 200 && status < 300) return 'valid';
+  if (status === 429) return 'rate_limited';
+
+  const message = extractErrorMessage(body) ?? '';
+  if (status === 401 || status === 403) {
+    return REVOKED_PATTERN.test(message) ? 'revoked' : 'invalid';
+  }
+  // Gemini answers 400 API_KEY_INVALID for unknown keys
+  if (status === 400 && /api[_ ]?key/i.test(message)) return 'invalid';
+  // The empty test body got past authentication
+  if (method === 'POST' && (status === 400 || status === 422)) return 'valid';
+
+  return 'unreachable';
+}
+
+/**
+ * Pull a human-readable error out of the common provider error shapes.
+ */
+function extractErrorMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') return body.slice(0, 200) || undefined;
+  if (!body || typeof body !== 'object') return undefined;
+
+  const error = (body as { error?: unknown; message?: unknown }).error ?? body;
+  if (typeof error === 'string') return error;
+  const message = (error as { message?: unknown }).message;
+  return typeof message === 'string' ? message : undefined;
+}
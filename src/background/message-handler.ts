@@ -1,10 +1,39 @@
 import { v4 as uuidv4 } from 'uuid';
 import { vaultService, storageService, sessionService } from '../shared/services';
-import { MESSAGE_TYPE, type TinylocketErrorCode } from '../shared/types/messages';
-import type { LlmProvider, ProviderInfo } from '../shared/types/providers';
-import { PROVIDERS, getProviderById } from '../shared/types/providers';
-import type { RequestHistoryEntry } from '../shared/types/storage';
-import { makeApiRequest, makeStreamingRequest } from './api-proxy';
+import {
+  MESSAGE_TYPE,
+  type EncodedPart,
+  type RequestBodyEnvelope,
+  type TinylocketErrorCode,
+  type ProviderInfo,
+  type ResponseType,
+  type StreamFormat,
+} from '../shared/types/messages';
+import type { LlmProvider, ProviderConfig } from '../shared/types/providers';
+import { getAllProviders, getProviderById } from '../shared/types/providers';
+import { estimateCost } from '../shared/types/pricing';
+import type { ApiKeyEntry, RequestHistoryEntry } from '../shared/types/storage';
+import { FAILOVER_STATUSES } from '../shared/constants';
+import {
+  buildAuthHeaders,
+  decodeRequestBody,
+  getHostAccessMessage,
+  hasHostAccess,
+  makeApiRequest,
+  makeStreamingRequest,
+  StreamInterruptedError,
+} from './api-proxy';
+import { buildAzureUrl } from './azure';
+import { signBedrockRequest } from './bedrock';
+import { recordBudgetSpend, reserveBudget } from './budgets';
+import { checkEndpoint } from './endpoint-policy';
+import { applyHeaderPolicy } from './header-policy';
+import { selectKeys } from './key-selector';
+import { acquireRateLimit, type RateLimitRule } from './rate-limiter';
+import { getRetryDelay, getRetryPolicy, waitForRetry, type RetryOptions } from './retry';
+import { extractUsage, getRequestModel, type TokenUsage } from './usage';
+import { isVaultMessage, handleVaultMessage } from './vault-handler';
+import type { StreamChannel } from './stream-port';
 
 interface MessagePayload {
   type: string;
@@ -16,26 +45,41 @@ interface MessagePayload {
     method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
     headers?: Record<string, string>;
     body?: unknown;
+    rawBody?: RequestBodyEnvelope<EncodedPart>;
     stream?: boolean;
-    endpointUrl?: string;
+    endpointUrl?: unknown; // No longer accepted; requests always go to the key's endpoint
+    keyId?: string;
+    timeoutMs?: number;
+    retry?: boolean | RetryOptions;
+    format?: StreamFormat;
+    responseType?: ResponseType;
   };
 }
 
+// In-flight non-streaming requests by frame and request id, so the page can cancel them
+const inflightRequests = new Map<string, AbortController>();
+
 interface MessageResponse {
   type: string;
   requestId?: string;
   success: boolean;
-  error?: { code: TinylocketErrorCode; message: string };
+  error?: { code: TinylocketErrorCode; message: string; retryAfterMs?: number };
   data?: unknown;
 }
 
 /**
- * Handle messages from content scripts.
+ * Handle messages from content scripts and the popup.
+ * Streaming requests arrive over a stream port and carry its channel.
  */
 export async function handleMessage(
   message: MessagePayload,
-  sender: chrome.runtime.MessageSender
+  sender: chrome.runtime.MessageSender,
+  stream?: StreamChannel
 ): Promise<MessageResponse> {
+  if (isVaultMessage(message)) {
+    return handleVaultMessage(message, sender);
+  }
+
   const origin = sender.tab?.url ? new URL(sender.tab.url).origin : message.origin;
   const requestId = message.requestId || uuidv4();
 
@@ -49,8 +93,24 @@ export async function handleMessage(
     case MESSAGE_TYPE.GET_PROVIDERS:
       return handleGetProviders(requestId);
 
-    case MESSAGE_TYPE.REQUEST:
-      return handleRequest(requestId, message.payload!, origin!);
+    case MESSAGE_TYPE.REQUEST: {
+      // Streams are cancelled over their own port
+      if (stream) {
+        return handleRequest(requestId, message.payload!, origin!, stream.signal, stream);
+      }
+
+      const controller = new AbortController();
+      const key = inflightKey(sender, requestId);
+      inflightRequests.set(key, controller);
+      try {
+        return await handleRequest(requestId, message.payload!, origin!, controller.signal);
+      } finally {
+        inflightRequests.delete(key);
+      }
+    }
+
+    case MESSAGE_TYPE.CANCEL:
+      return handleCancel(requestId, sender);
 
     default:
       return {
@@ -62,6 +122,28 @@ export async function handleMessage(
   }
 }
 
+/**
+ * Key for an in-flight request; ids are only unique within the frame that made them.
+ */
+function inflightKey(sender: chrome.runtime.MessageSender, requestId: string): string {
+  return `${sender.tab?.id}:${sender.frameId}:${requestId}`;
+}
+
+/**
+ * Handle cancel request (abort an in-flight request from the same frame).
+ */
+function handleCancel(requestId: string, sender: chrome.runtime.MessageSender): MessageResponse {
+  const controller = inflightRequests.get(inflightKey(sender, requestId));
+  controller?.abort();
+
+  return {
+    type: MESSAGE_TYPE.RESPONSE,
+    requestId,
+    success: true,
+    data: { cancelled: !!controller },
+  };
+}
+
 /**
  * Handle ping request (check if extension is installed).
  */
@@ -106,12 +188,16 @@ async function handleGetProviders(requestId: string): Promise<MessageResponse> {
     };
   }
 
-  const keys = vaultService.getKeys();
-  const providers: ProviderInfo[] = PROVIDERS.map((p) => ({
-    id: p.id,
-    name: p.name,
-    hasKey: keys.some((k) => k.provider === p.id),
-  }));
+  const customProviders = await storageService.getCustomProviders();
+  const providers: ProviderInfo[] = getAllProviders(customProviders).map((p) => {
+    const keys = vaultService.getKeysForProvider(p.id);
+    return {
+      id: p.id,
+      name: p.name,
+      hasKey: keys.length > 0,
+      keys: keys.map((k) => ({ id: k.id, name: k.name, isDefault: !!k.isDefault })),
+    };
+  });
 
   return {
     type: MESSAGE_TYPE.RESPONSE,
@@ -127,10 +213,10 @@ async function handleGetProviders(requestId: string): Promise<MessageResponse> {
 async function handleRequest(
   requestId: string,
   payload: NonNullable<MessagePayload['payload']>,
-  origin: string
+  origin: string,
+  signal: AbortSignal,
+  stream?: StreamChannel
 ): Promise<MessageResponse> {
-  const startTime = Date.now();
-
   // Check if vault is unlocked
   if (!vaultService.isUnlocked()) {
     return {
@@ -146,8 +232,8 @@ async function handleRequest(
 
   // Check if domain is whitelisted
   const domain = new URL(origin).hostname;
-  const isWhitelisted = await storageService.isDomainWhitelisted(domain);
-  if (!isWhitelisted) {
+  const domainEntry = await storageService.getWhitelistedDomain(domain);
+  if (!domainEntry) {
     return {
       type: MESSAGE_TYPE.RESPONSE,
       requestId,
@@ -159,8 +245,7 @@ async function handleRequest(
     };
   }
 
-  // Get API key for provider
-  const { provider, endpoint, method = 'POST', headers = {}, body, stream, endpointUrl } = payload;
+  const { provider, keyId } = payload;
   if (!provider) {
     return {
       type: MESSAGE_TYPE.RESPONSE,
@@ -170,20 +255,39 @@ async function handleRequest(
     };
   }
 
-  const keyEntry = vaultService.getKeyForProvider(provider);
-  if (!keyEntry) {
+  if (payload.stream && !stream) {
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'Streaming requests must be sent over a stream port' },
+    };
+  }
+
+  // The key's stored endpoint is the only base URL; a page-supplied one could send the key anywhere
+  if (payload.endpointUrl !== undefined) {
     return {
       type: MESSAGE_TYPE.RESPONSE,
       requestId,
       success: false,
       error: {
-        code: 'NO_KEY',
-        message: `No API key configured for ${provider}. Add one in the TinyLocket extension.`,
+        code: 'INVALID_REQUEST',
+        message: 'endpointUrl is not accepted; requests use the endpoint configured with the key',
       },
     };
   }
 
-  const providerConfig = getProviderById(provider);
+  const { timeoutMs } = payload;
+  if (timeoutMs !== undefined && !(Number.isFinite(timeoutMs) && timeoutMs > 0)) {
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'timeoutMs must be a positive number' },
+    };
+  }
+
+  const providerConfig = getProviderById(provider, await storageService.getCustomProviders());
   if (!providerConfig) {
     return {
       type: MESSAGE_TYPE.RESPONSE,
@@ -193,10 +297,212 @@ async function handleRequest(
     };
   }
 
+  // Only allowlisted endpoints and methods, and nothing that escapes the provider's base URL
+  const endpointCheck = checkEndpoint(
+    providerConfig,
+    domainEntry,
+    payload.endpoint,
+    payload.method ?? 'POST'
+  );
+  if (!endpointCheck.ok) {
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: { code: 'ENDPOINT_NOT_ALLOWED', message: endpointCheck.message },
+    };
+  }
+
+  // Only headers the provider's policy lets through; the rest are dropped and named in the response
+  const filtered = applyHeaderPolicy(providerConfig, payload.headers);
+
+  // Rebuild multipart and binary bodies, which the content script sends base64-encoded
+  let body = payload.body;
+  if (payload.rawBody) {
+    try {
+      body = decodeRequestBody(payload.rawBody);
+    } catch (error) {
+      return {
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: (error as Error).message },
+      };
+    }
+  }
+
+  // Get API key(s) for provider
+  const settings = await storageService.getSettings();
+  const selection = selectKeys(
+    provider,
+    settings.keySelectionStrategy,
+    domainEntry,
+    await storageService.getWhitelistedDomains(),
+    keyId
+  );
+  if (!selection.ok) {
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: { code: 'NO_KEY', message: selection.message },
+    };
+  }
+
+  // The timeout covers the whole request, including queueing, failover and retries
+  const requestSignal = timeoutMs
+    ? AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)])
+    : signal;
+
+  // Rate limits of the domain and the provider; may wait in a queue for a free slot
+  const rules: RateLimitRule[] = [];
+  if (domainEntry.rateLimit) {
+    rules.push({ key: `domain:${domain}`, label: domain, limit: domainEntry.rateLimit });
+  }
+  const providerLimit = settings.providerRateLimits[provider];
+  if (providerLimit) {
+    rules.push({ key: `provider:${provider}`, label: providerConfig.name, limit: providerLimit });
+  }
+  const slot = await acquireRateLimit(rules, requestSignal);
+  if (!slot.ok) {
+    if (slot.aborted) {
+      const errorCode = getErrorCode(requestSignal);
+      return {
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: { code: errorCode, message: describeError(errorCode, null, timeoutMs) },
+      };
+    }
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: { code: 'RATE_LIMITED', message: slot.message, retryAfterMs: slot.retryAfterMs },
+    };
+  }
+
+  try {
+    // Enforce spending and request budgets; the request counts once, however many attempts it takes
+    const budget = await reserveBudget(domain, provider);
+    if (!budget.ok) {
+      return {
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: { code: 'BUDGET_EXCEEDED', message: budget.message },
+      };
+    }
+
+    const response = await proxyWithRetries(
+      requestId,
+      { ...payload, headers: filtered.headers, body, rawBody: undefined },
+      providerConfig,
+      selection.keys,
+      domain,
+      requestSignal,
+      stream
+    );
+    if (response.data && filtered.rejected.length > 0) {
+      response.data = { ...response.data, droppedHeaders: filtered.rejected };
+    }
+    return response;
+  } finally {
+    slot.release();
+  }
+}
+
+/**
+ * Run a request until it succeeds or may not be retried.
+ * Each attempt is a pass over the selected keys; retries are opt-in.
+ */
+async function proxyWithRetries(
+  requestId: string,
+  payload: NonNullable<MessagePayload['payload']>,
+  providerConfig: ProviderConfig,
+  keys: ApiKeyEntry[],
+  domain: string,
+  signal: AbortSignal,
+  stream?: StreamChannel
+): Promise<MessageResponse> {
+  const policy = getRetryPolicy(payload.retry);
+  let response!: MessageResponse;
+  for (let attempt = 1; ; attempt++) {
+    // Try keys in order; only the failover strategy yields more than one
+    for (const [index, keyEntry] of keys.entries()) {
+      response = await proxyWithKey(
+        requestId,
+        payload,
+        providerConfig,
+        keyEntry,
+        domain,
+        signal,
+        attempt,
+        stream
+      );
+
+      // A stream that failed partway (e.g. a Bedrock exception) has already reached the page
+      const status = (response.data as { status?: number } | undefined)?.status;
+      const isLastKey = index === keys.length - 1;
+      if (
+        isLastKey ||
+        stream?.started ||
+        status === undefined ||
+        !FAILOVER_STATUSES.includes(status)
+      ) {
+        break;
+      }
+    }
+
+    const data = response.data as { status?: number; headers?: Record<string, string> } | undefined;
+    const delayMs = getRetryDelay(
+      {
+        status: data?.status,
+        headers: data?.headers,
+        errorCode: response.error?.code,
+        streamStarted: !!stream?.started,
+      },
+      attempt,
+      policy
+    );
+    if (delayMs === null) break;
+
+    try {
+      await waitForRetry(delayMs, signal);
+    } catch (error) {
+      const errorCode = getErrorCode(signal);
+      return {
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: { code: errorCode, message: describeError(errorCode, error, payload.timeoutMs) },
+      };
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Forward an API request to the provider with a specific key.
+ */
+async function proxyWithKey(
+  requestId: string,
+  payload: NonNullable<MessagePayload['payload']>,
+  providerConfig: ProviderConfig,
+  keyEntry: ApiKeyEntry,
+  domain: string,
+  signal: AbortSignal,
+  attempt: number,
+  stream?: StreamChannel
+): Promise<MessageResponse> {
+  const startTime = Date.now();
+  const { endpoint, method = 'POST', headers = {}, body } = payload;
+
   // Build the full URL
   let baseUrl = providerConfig.baseUrl;
   if (providerConfig.requiresEndpointUrl) {
-    baseUrl = endpointUrl || keyEntry.endpointUrl || '';
+    baseUrl = keyEntry.endpointUrl || '';
     if (!baseUrl) {
       return {
         type: MESSAGE_TYPE.RESPONSE,
@@ -207,73 +513,209 @@ async function handleRequest(
     }
   }
 
-  const fullUrl = `${baseUrl}${endpoint}`;
+  let fullUrl = `${baseUrl}${endpoint}`;
+  if (providerConfig.type === 'azure_openai') {
+    const azure = buildAzureUrl(baseUrl, endpoint ?? '', body, keyEntry.azure);
+    if (!azure.ok) {
+      return {
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: azure.message },
+      };
+    }
+    fullUrl = azure.url;
+  }
 
-  // Add authentication header
-  const authHeaders: Record<string, string> = {
+  // Add authentication headers
+  let authHeaders: Record<string, string> = {
     ...headers,
-    [providerConfig.authHeader]: `${providerConfig.authPrefix}${keyEntry.apiKey}`,
+    ...buildAuthHeaders(providerConfig, keyEntry.apiKey),
   };
+  let requestBody = body;
+
+  // Bedrock takes no key header: each request is signed with the key's AWS credentials
+  if (providerConfig.type === 'bedrock') {
+    const signed = await signBedrockRequest(
+      keyEntry,
+      endpoint ?? '',
+      method,
+      { ...headers, ...providerConfig.headerPolicy.forced },
+      body
+    );
+    if (!signed.ok) {
+      return {
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: signed.message },
+      };
+    }
+    fullUrl = signed.url;
+    authHeaders = signed.headers;
+    requestBody = signed.body;
+  }
 
-  // Add Anthropic-specific headers
-  if (provider === 'anthropic') {
-    authHeaders['anthropic-version'] = '2023-06-01';
+  // Keys only go to hosts the user has granted the extension access to
+  if (!(await hasHostAccess(fullUrl))) {
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: {
+        code: 'ENDPOINT_NOT_ALLOWED',
+        message: getHostAccessMessage(providerConfig.name, fullUrl),
+      },
+    };
   }
 
   try {
-    let result: { status: number; headers: Record<string, string>; body: unknown };
+    let result: {
+      status: number;
+      headers: Record<string, string>;
+      body: unknown;
+      bodyEncoding?: 'base64';
+      json?: unknown;
+    };
 
     if (stream) {
       // Handle streaming request
-      result = await makeStreamingRequest(fullUrl, method, authHeaders, body, requestId);
+      result = await makeStreamingRequest(
+        fullUrl,
+        method,
+        authHeaders,
+        requestBody,
+        stream,
+        signal,
+        payload.format
+      );
     } else {
       // Handle regular request
-      result = await makeApiRequest(fullUrl, method, authHeaders, body);
+      result = await makeApiRequest(
+        fullUrl,
+        method,
+        authHeaders,
+        requestBody,
+        signal,
+        payload.responseType
+      );
     }
 
     const durationMs = Date.now() - startTime;
 
+    // Token usage is only reported on successful responses; non-streamed usage is read
+    // from the decoded JSON, whatever response type the page asked for
+    const usageBody = stream ? result.body : result.json;
+    const usage =
+      result.status >= 200 && result.status < 300
+        ? extractUsage(usageBody, !!stream, result.headers['content-type'])
+        : {};
+
     // Log to history
     const historyEntry: RequestHistoryEntry = {
       id: uuidv4(),
       timestamp: Date.now(),
-      provider,
+      provider: providerConfig.id,
       endpoint: endpoint || '',
       domain,
       status: result.status,
       durationMs,
+      keyId: keyEntry.id,
+      attempt,
+      ...(await getUsageFields(providerConfig, usage, body, endpoint)),
     };
     await storageService.addRequestHistory(historyEntry);
+    if (historyEntry.estimatedCost) {
+      await recordBudgetSpend(domain, providerConfig.id, historyEntry.estimatedCost);
+    }
 
+    // The decoded JSON was only needed for usage tracking
+    const { json: _json, ...data } = result;
     return {
       type: MESSAGE_TYPE.RESPONSE,
       requestId,
       success: true,
-      data: result,
+      data,
     };
   } catch (error) {
     const durationMs = Date.now() - startTime;
+    const errorCode = getErrorCode(signal);
+
+    // A stream cut off partway was still billed for the tokens generated until then
+    const partial = error instanceof StreamInterruptedError ? error.partial : undefined;
+    const usage =
+      partial && partial.status >= 200 && partial.status < 300
+        ? extractUsage(partial.body, true, partial.headers['content-type'])
+        : {};
 
-    // Log failed request to history
+    // Log failed, cancelled or timed out request to history
     const historyEntry: RequestHistoryEntry = {
       id: uuidv4(),
       timestamp: Date.now(),
-      provider,
+      provider: providerConfig.id,
       endpoint: endpoint || '',
       domain,
       status: 0,
       durationMs,
+      keyId: keyEntry.id,
+      attempt,
+      errorCode,
+      ...(await getUsageFields(providerConfig, usage, body, endpoint)),
     };
     await storageService.addRequestHistory(historyEntry);
+    if (historyEntry.estimatedCost) {
+      await recordBudgetSpend(domain, providerConfig.id, historyEntry.estimatedCost);
+    }
 
     return {
       type: MESSAGE_TYPE.RESPONSE,
       requestId,
       success: false,
       error: {
-        code: 'NETWORK_ERROR',
-        message: error instanceof Error ? error.message : 'Network request failed',
+        code: errorCode,
+        message: describeError(errorCode, error, payload.timeoutMs),
       },
     };
   }
 }
+
+/**
+ * History fields for a request's token usage, priced with the user's overrides.
+ */
+async function getUsageFields(
+  providerConfig: ProviderConfig,
+  usage: TokenUsage,
+  body: unknown,
+  endpoint: string | undefined
+): Promise<Partial<RequestHistoryEntry>> {
+  const hasUsage = usage.inputTokens !== undefined || usage.outputTokens !== undefined;
+  const model = usage.model ?? getRequestModel(body, endpoint);
+  const { priceOverrides } = await storageService.getSettings();
+  return {
+    model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cachedTokens: usage.cachedTokens,
+    tokensUsed: hasUsage ? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0) : undefined,
+    estimatedCost: estimateCost({ ...usage, provider: providerConfig.id, model }, priceOverrides),
+  };
+}
+
+/**
+ * Classify a failed request by why its signal was aborted, if it was.
+ */
+function getErrorCode(signal: AbortSignal): TinylocketErrorCode {
+  if (!signal.aborted) return 'NETWORK_ERROR';
+  return signal.reason instanceof DOMException && signal.reason.name === 'TimeoutError'
+    ? 'TIMEOUT'
+    : 'CANCELLED';
+}
+
+/**
+ * Error message for a request that got no provider response.
+ */
+function describeError(code: TinylocketErrorCode, error: unknown, timeoutMs?: number): string {
+  if (code === 'TIMEOUT') return `Request timed out after ${timeoutMs}ms`;
+  if (code === 'CANCELLED') return 'Request was cancelled';
+  return error instanceof Error ? error.message : 'Network request failed';
+}
@@ -0,0 +1,123 @@
+import type { RateLimit } from '../shared/types/storage';
+import {
+  RATE_LIMIT_MAX_QUEUED,
+  RATE_LIMIT_RETRY_MS,
+  RATE_LIMIT_WINDOW_MS,
+} from '../shared/constants';
+
+// A limit applied to one bucket of requests (a domain, or a provider)
+export interface RateLimitRule {
+  key: string; // e.g. 'domain:example.com' or 'provider:openai'
+  label: string; // Shown in the error message
+  limit: RateLimit;
+}
+
+export type RateLimitResult =
+  | { ok: true; release: () => void }
+  | { ok: false; aborted: true }
+  | { ok: false; aborted: false; retryAfterMs: number; message: string };
+
+interface Bucket {
+  started: number[]; // Start times within the sliding window, oldest first
+  active: number;
+}
+
+// In-memory state; a worker restart starts every bucket afresh
+const buckets = new Map<string, Bucket>();
+const waiters = new Set<() => void>();
+
+function getBucket(key: string): Bucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { started: [], active: 0 };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * How long until a rule admits another request: 0 if it does now, Infinity if
+ * only a running request finishing can free a slot.
+ */
+function getWait(rule: RateLimitRule, now: number): number {
+  const bucket = getBucket(rule.key);
+  while (bucket.started.length && bucket.started[0] <= now - RATE_LIMIT_WINDOW_MS) {
+    bucket.started.shift();
+  }
+
+  const { requestsPerMinute, maxConcurrent } = rule.limit;
+  if (requestsPerMinute > 0 && bucket.started.length >= requestsPerMinute) {
+    return bucket.started[bucket.started.length - requestsPerMinute] + RATE_LIMIT_WINDOW_MS - now;
+  }
+  if (maxConcurrent > 0 && bucket.active >= maxConcurrent) {
+    return Infinity;
+  }
+  return 0;
+}
+
+/**
+ * Wait until a slot may have freed up: a request finished, `ms` passed, or the signal aborted.
+ */
+function waitForSlot(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      waiters.delete(done);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = Number.isFinite(ms) ? setTimeout(done, ms) : undefined;
+    waiters.add(done);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Take a slot in every rule's bucket, queueing or rejecting while any rule is exhausted.
+ * The caller must call release() once the request (including retries) has finished.
+ */
+export async function acquireRateLimit(
+  rules: RateLimitRule[],
+  signal: AbortSignal
+): Promise<RateLimitResult> {
+  for (;;) {
+    if (signal.aborted) return { ok: false, aborted: true };
+
+    const now = Date.now();
+    const blocked = rules
+      .map((rule) => ({ rule, wait: getWait(rule, now) }))
+      .filter(({ wait }) => wait > 0);
+
+    if (blocked.length === 0) {
+      for (const rule of rules) {
+        const bucket = getBucket(rule.key);
+        bucket.started.push(now);
+        bucket.active++;
+      }
+      let released = false;
+      return {
+        ok: true,
+        release: () => {
+          if (released) return;
+          released = true;
+          for (const rule of rules) getBucket(rule.key).active--;
+          for (const wake of [...waiters]) wake();
+        },
+      };
+    }
+
+    const wait = Math.max(...blocked.map((b) => b.wait));
+    const rejecting = blocked.find((b) => b.rule.limit.whenLimited === 'reject');
+    if (rejecting || waiters.size >= RATE_LIMIT_MAX_QUEUED) {
+      const { rule } = rejecting ?? blocked[0];
+      return {
+        ok: false,
+        aborted: false,
+        retryAfterMs: Number.isFinite(wait) ? Math.ceil(wait) : RATE_LIMIT_RETRY_MS,
+        message: `Rate limit for ${rule.label} reached`,
+      };
+    }
+
+    await waitForSlot(wait, signal);
+  }
+}
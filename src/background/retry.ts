@@ -0,0 +1,152 @@
+import {
+  RETRYABLE_STATUSES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_DEFAULT_ATTEMPTS,
+  RETRY_MAX_ATTEMPTS,
+  RETRY_MAX_DELAY_MS,
+} from '../shared/constants';
+import type { TinylocketErrorCode } from '../shared/types/messages';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  maxDelayMs?: number; // Give up instead of waiting longer than this
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  maxDelayMs: number;
+}
+
+// Outcome of one attempt, as far as retrying is concerned
+export interface AttemptOutcome {
+  status?: number;
+  headers?: Record<string, string>;
+  errorCode?: TinylocketErrorCode;
+  streamStarted: boolean;
+}
+
+// Remaining/reset header pairs: OpenAI-compatible providers send Go-style
+// durations, Anthropic sends RFC 3339 timestamps
+const RATE_LIMIT_HEADERS: { remaining: string; reset: string; format: 'duration' | 'timestamp' }[] = [
+  { remaining: 'x-ratelimit-remaining-requests', reset: 'x-ratelimit-reset-requests', format: 'duration' },
+  { remaining: 'x-ratelimit-remaining-tokens', reset: 'x-ratelimit-reset-tokens', format: 'duration' },
+  ...['requests', 'tokens', 'input-tokens', 'output-tokens'].map((limit) => ({
+    remaining: `anthropic-ratelimit-${limit}-remaining`,
+    reset: `anthropic-ratelimit-${limit}-reset`,
+    format: 'timestamp' as const,
+  })),
+];
+
+/**
+ * Resolve the request's retry option into a policy. Retrying is opt-in;
+ * without the option a request gets a single attempt.
+ */
+export function getRetryPolicy(retry: boolean | RetryOptions | undefined): RetryPolicy {
+  if (!retry) {
+    return { maxAttempts: 1, maxDelayMs: 0 };
+  }
+
+  const options = retry === true ? {} : retry;
+  const maxAttempts = Math.floor(options.maxAttempts ?? RETRY_DEFAULT_ATTEMPTS);
+  return {
+    maxAttempts: Math.min(Math.max(maxAttempts, 1), RETRY_MAX_ATTEMPTS),
+    maxDelayMs: Math.max(options.maxDelayMs ?? RETRY_MAX_DELAY_MS, 0),
+  };
+}
+
+/**
+ * Decide whether to retry after an attempt, and how long to wait first.
+ * Returns null when the outcome is final.
+ */
+export function getRetryDelay(
+  outcome: AttemptOutcome,
+  attempt: number,
+  policy: RetryPolicy
+): number | null {
+  if (attempt >= policy.maxAttempts) return null;
+
+  // Once bytes have reached the page, a retry would duplicate output
+  if (outcome.streamStarted) return null;
+
+  const retryable =
+    outcome.status !== undefined
+      ? RETRYABLE_STATUSES.includes(outcome.status)
+      : outcome.errorCode === 'NETWORK_ERROR';
+  if (!retryable) return null;
+
+  const serverDelay = outcome.headers ? getServerDelay(outcome.headers) : undefined;
+  if (serverDelay !== undefined) {
+    return serverDelay <= policy.maxDelayMs ? serverDelay : null;
+  }
+
+  // Exponential backoff with jitter in [delay / 2, delay]
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+/**
+ * Wait before the next attempt; rejects if the request is cancelled or times out meanwhile.
+ */
+export function waitForRetry(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay requested by the provider, from Retry-After or its rate-limit reset headers.
+ * Header names are lowercase, as collected from fetch.
+ */
+function getServerDelay(headers: Record<string, string>): number | undefined {
+  // Non-standard millisecond variant sent by OpenAI
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  if (headers['retry-after-ms'] && Number.isFinite(retryAfterMs)) {
+    return Math.max(retryAfterMs, 0);
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(date - Date.now(), 0);
+  }
+
+  // Provider rate-limit windows: wait for the reset of every exhausted limit
+  const resets = RATE_LIMIT_HEADERS.filter(({ remaining }) => headers[remaining] === '0')
+    .map(({ reset, format }) => headers[reset] && parseReset(headers[reset], format))
+    .filter((ms): ms is number => typeof ms === 'number');
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Time until a rate-limit reset, from a duration ("6m0s") or a timestamp.
+ */
+function parseReset(value: string, format: 'duration' | 'timestamp'): number | undefined {
+  if (format === 'duration') return parseDuration(value);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Parse a Go-style duration ("1h2m3.5s", "20ms") into milliseconds.
+ */
+function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) return undefined;
+  return Math.round(parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0));
+}
@@ -0,0 +1,144 @@
+/**
+ * AWS Signature Version 4 request signing (header-based), using WebCrypto.
+ * https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+ */
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string; // Temporary (STS) credentials only
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string; // Path segments already URI-encoded once
+  headers: Record<string, string>;
+  body?: Uint8Array<ArrayBuffer>;
+}
+
+export interface SigningScope {
+  region: string;
+  service: string;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(data: string | Uint8Array<ArrayBuffer>): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+async function hmac(key: string | ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    typeof key === 'string' ? encoder.encode(key) : key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * RFC 3986 encoding: everything but unreserved characters is percent-encoded.
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Canonical URI: every path segment encoded again, as all services but S3 expect.
+ */
+function getCanonicalUri(pathname: string): string {
+  return pathname.split('/').map(uriEncode).join('/') || '/';
+}
+
+/**
+ * Canonical query string: names and values re-encoded, sorted by name then value.
+ */
+function getCanonicalQuery(search: string): string {
+  return search
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      const name = separator === -1 ? pair : pair.slice(0, separator);
+      const value = separator === -1 ? '' : pair.slice(separator + 1);
+      return [uriEncode(decodeURIComponent(name)), uriEncode(decodeURIComponent(value))];
+    })
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+/**
+ * Timestamp in the ISO 8601 basic format SigV4 uses, e.g. 20150830T123600Z.
+ */
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Sign a request, returning the headers to add to it: authorization, x-amz-date and,
+ * for temporary credentials, x-amz-security-token. Every header passed in is signed,
+ * plus host, which fetch derives from the URL.
+ */
+export async function signRequest(
+  request: SignableRequest,
+  credentials: AwsCredentials,
+  scope: SigningScope,
+  date = new Date()
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const amzDate = toAmzDate(date);
+  const day = amzDate.slice(0, 8);
+
+  const added: Record<string, string> = { 'x-amz-date': amzDate };
+  if (credentials.sessionToken) {
+    added['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const headers = new Map<string, string>([['host', url.host]]);
+  for (const [name, value] of Object.entries({ ...request.headers, ...added })) {
+    headers.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const names = [...headers.keys()].sort();
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    getCanonicalUri(url.pathname),
+    getCanonicalQuery(url.search),
+    names.map((name) => `${name}:${headers.get(name)}\n`).join(''),
+    signedHeaders,
+    await sha256Hex(request.body ?? new Uint8Array()),
+  ].join('\n');
+
+  const credentialScope = `${day}/${scope.region}/${scope.service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, credentialScope, await sha256Hex(canonicalRequest)].join(
+    '\n'
+  );
+
+  const dateKey = await hmac(`AWS4${credentials.secretAccessKey}`, day);
+  const regionKey = await hmac(dateKey, scope.region);
+  const serviceKey = await hmac(regionKey, scope.service);
+  const signingKey = await hmac(serviceKey, 'aws4_request');
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...added,
+    authorization:
+      `${ALGORITHM} Credential=${credentials.accessKeyId}/${credentialScope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
@@ -0,0 +1,152 @@
+import { sessionService } from '../shared/services';
+import {
+  MESSAGE_TYPE,
+  STREAM_MESSAGE_TYPE,
+  STREAM_PORT_NAME,
+  type StreamPortAck,
+  type StreamPortCancel,
+  type StreamPortChunk,
+  type StreamEvent,
+} from '../shared/types/messages';
+import { STREAM_ACK_WINDOW } from '../shared/constants';
+import { handleMessage } from './message-handler';
+
+/**
+ * One streaming request bound to the port of the tab/frame that made it.
+ * Chunks are sequenced and acked, so at most STREAM_ACK_WINDOW are in flight;
+ * the stream is aborted when the page cancels it or the port disconnects
+ * (tab closed or navigated).
+ */
+export class StreamChannel {
+  private nextSeq = 0;
+  private ackedSeq = -1;
+  private ackWaiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private controller = new AbortController();
+  private finished = false;
+  private disconnected = false;
+
+  constructor(
+    private port: chrome.runtime.Port,
+    readonly requestId: string
+  ) {
+    port.onMessage.addListener((message: StreamPortAck | StreamPortCancel) => {
+      if (message.type === STREAM_MESSAGE_TYPE.ACK) {
+        this.ack(message.seq);
+      } else if (message.type === STREAM_MESSAGE_TYPE.CANCEL) {
+        this.cancel();
+      }
+    });
+    port.onDisconnect.addListener(() => this.teardown());
+  }
+
+  /**
+   * Aborted when the page cancels or goes away; pass it to fetch.
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Whether any chunk has been sent; after that the request can no longer be retried.
+   */
+  get started(): boolean {
+    return this.nextSeq > 0;
+  }
+
+  /**
+   * Send a chunk, waiting for acks while the window is full.
+   */
+  async write(chunk: string, done = false): Promise<void> {
+    await this.post({ chunk, done });
+  }
+
+  /**
+   * Send a parsed event, waiting for acks while the window is full.
+   */
+  async writeEvent(event: StreamEvent): Promise<void> {
+    await this.post({ chunk: '', event, done: false });
+  }
+
+  /**
+   * Send the final response. The content script disconnects once it has it.
+   */
+  finish(response: unknown): void {
+    if (this.finished || this.disconnected) return;
+    this.finished = true;
+    this.port.postMessage(response);
+  }
+
+  private async post(fields: Pick<StreamPortChunk, 'chunk' | 'event' | 'done'>): Promise<void> {
+    if (this.signal.aborted) {
+      throw new Error('Stream cancelled by the page');
+    }
+
+    const message: StreamPortChunk = {
+      type: MESSAGE_TYPE.STREAM_CHUNK,
+      requestId: this.requestId,
+      seq: this.nextSeq++,
+      ...fields,
+    };
+    this.port.postMessage(message);
+
+    while (this.nextSeq - 1 - this.ackedSeq >= STREAM_ACK_WINDOW) {
+      await new Promise<void>((resolve, reject) => {
+        this.ackWaiter = { resolve, reject };
+      });
+    }
+  }
+
+  private ack(seq: number): void {
+    this.ackedSeq = Math.max(this.ackedSeq, seq);
+    this.ackWaiter?.resolve();
+    this.ackWaiter = null;
+  }
+
+  private cancel(): void {
+    this.controller.abort();
+    this.ackWaiter?.reject(new Error('Stream cancelled by the page'));
+    this.ackWaiter = null;
+  }
+
+  private teardown(): void {
+    this.disconnected = true;
+    this.cancel();
+  }
+}
+
+/**
+ * Accept a stream port from a content script and run the request it carries.
+ */
+export function handleStreamPort(port: chrome.runtime.Port): void {
+  if (port.name !== STREAM_PORT_NAME) return;
+
+  // Only content scripts (bound to a tab) stream
+  if (port.sender?.tab?.id === undefined) {
+    port.disconnect();
+    return;
+  }
+
+  let channel: StreamChannel | null = null;
+
+  port.onMessage.addListener((message) => {
+    // One request per port
+    if (message?.type !== MESSAGE_TYPE.REQUEST || channel) return;
+
+    const stream = new StreamChannel(port, message.requestId);
+    channel = stream;
+
+    sessionService
+      .whenReady()
+      .then(() => handleMessage(message, port.sender!, stream))
+      .then((response) => stream.finish(response))
+      .catch((error) => {
+        console.error('Error handling stream request:', error);
+        stream.finish({
+          type: MESSAGE_TYPE.RESPONSE,
+          requestId: message.requestId,
+          success: false,
+          error: { code: 'NETWORK_ERROR', message: error.message },
+        });
+      });
+  });
+}
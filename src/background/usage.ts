@@ -0,0 +1,123 @@
+import { createEventParser } from './event-parser';
+
+// Token counts for one request. cachedTokens is included in inputTokens.
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+  model?: string;
+}
+
+/**
+ * Extract token usage and model from a provider response.
+ * Streamed bodies are the raw event text; usage is accumulated across events
+ * (Anthropic reports input tokens at the start and output tokens at the end).
+ */
+export function extractUsage(
+  body: unknown,
+  streamed: boolean,
+  contentType: string | undefined
+): TokenUsage {
+  if (!streamed) {
+    return readUsage(body);
+  }
+  if (typeof body !== 'string') return {};
+
+  const parser = createEventParser(contentType ?? null);
+  const events = [...parser.push(body), ...parser.flush()];
+  return events.reduce<TokenUsage>(
+    (usage, { data }) => ({ ...usage, ...readUsage(data) }),
+    {}
+  );
+}
+
+/**
+ * Model requested by the page: the model field of the JSON body or form,
+ * or Gemini's or Bedrock's model path segment.
+ */
+export function getRequestModel(body: unknown, endpoint: string | undefined): string | undefined {
+  const model =
+    body instanceof FormData ? body.get('model') : (body as { model?: unknown } | undefined)?.model;
+  if (typeof model === 'string') return model;
+  const bedrockModel = endpoint?.match(/^\/model\/([^/?]+)\//)?.[1];
+  if (bedrockModel) return decodeURIComponent(bedrockModel);
+  return endpoint?.match(/\/models\/([^/:?]+)/)?.[1];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Follow a path of object keys, e.g. get(data, 'usage', 'prompt_tokens').
+ */
+function get(value: unknown, ...path: string[]): unknown {
+  return path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), value);
+}
+
+function getNumber(value: unknown, ...path: string[]): number | undefined {
+  const found = get(value, ...path);
+  return typeof found === 'number' ? found : undefined;
+}
+
+/**
+ * Read the usage fields of one response object or stream event.
+ * Only fields present in the object are returned, so later events can refine earlier ones.
+ */
+function readUsage(data: unknown): TokenUsage {
+  const usage: TokenUsage = {};
+  const model = get(data, 'model') ?? get(data, 'message', 'model') ?? get(data, 'modelVersion');
+  if (typeof model === 'string') usage.model = model;
+
+  // OpenAI and compatible providers: usage.prompt_tokens / completion_tokens
+  const promptTokens = getNumber(data, 'usage', 'prompt_tokens');
+  if (promptTokens !== undefined) {
+    usage.inputTokens = promptTokens;
+    usage.outputTokens = getNumber(data, 'usage', 'completion_tokens') ?? 0;
+    usage.cachedTokens = getNumber(data, 'usage', 'prompt_tokens_details', 'cached_tokens') ?? 0;
+    return usage;
+  }
+
+  // Anthropic: usage on the message (or message_start), output tokens again on message_delta
+  const anthropic = get(data, 'message', 'usage') ?? get(data, 'usage');
+  const inputTokens = getNumber(anthropic, 'input_tokens');
+  const outputTokens = getNumber(anthropic, 'output_tokens');
+  if (inputTokens !== undefined || outputTokens !== undefined) {
+    if (inputTokens !== undefined) {
+      const cacheRead = getNumber(anthropic, 'cache_read_input_tokens') ?? 0;
+      usage.inputTokens =
+        inputTokens + cacheRead + (getNumber(anthropic, 'cache_creation_input_tokens') ?? 0);
+      usage.cachedTokens = cacheRead;
+    }
+    if (outputTokens !== undefined) {
+      usage.outputTokens = outputTokens;
+    }
+    return usage;
+  }
+
+  // Gemini: usageMetadata (thinking tokens are billed as output)
+  const meta = get(data, 'usageMetadata');
+  if (isObject(meta)) {
+    usage.inputTokens = getNumber(meta, 'promptTokenCount') ?? 0;
+    usage.outputTokens =
+      (getNumber(meta, 'candidatesTokenCount') ?? 0) + (getNumber(meta, 'thoughtsTokenCount') ?? 0);
+    usage.cachedTokens = getNumber(meta, 'cachedContentTokenCount') ?? 0;
+    return usage;
+  }
+
+  // Cohere: meta.billed_units (v1), usage.billed_units (v2), or the same inside a stream-end event
+  const cohere =
+    get(data, 'meta', 'billed_units') ??
+    get(data, 'usage', 'billed_units') ??
+    get(data, 'response', 'meta', 'billed_units') ??
+    get(data, 'delta', 'usage', 'billed_units');
+  if (isObject(cohere)) {
+    usage.inputTokens = getNumber(cohere, 'input_tokens') ?? 0;
+    usage.outputTokens = getNumber(cohere, 'output_tokens') ?? 0;
+    usage.cachedTokens = 0;
+  }
+
+  return usage;
+}
@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { vaultService, sessionService, backupService } from '../shared/services';
+import { validateKey } from './key-validator';
+import {
+  MESSAGE_TYPE,
+  VAULT_MESSAGE_TYPE,
+  type VaultMessageType,
+  type VaultState,
+  type TinylocketErrorCode,
+} from '../shared/types/messages';
+import type { LlmProvider } from '../shared/types/providers';
+import type {
+  ApiKeyEntry,
+  ImportConflictStrategy,
+  ImportMode,
+  KeySettings,
+  VaultBackup,
+} from '../shared/types/storage';
+
+export interface VaultMessage {
+  type: VaultMessageType;
+  requestId?: string;
+  payload?: {
+    password?: string;
+    recoveryCode?: string;
+    newPassword?: string;
+    id?: string;
+    provider?: LlmProvider;
+    name?: string;
+    apiKey?: string;
+    settings?: KeySettings;
+    updates?: Partial<Pick<ApiKeyEntry, 'name' | 'apiKey' | 'endpointUrl' | 'azure'>>;
+    passphrase?: string;
+    includeHistory?: boolean;
+    backup?: VaultBackup;
+    mode?: ImportMode;
+    strategy?: ImportConflictStrategy;
+  };
+}
+
+interface VaultResponse {
+  type: string;
+  requestId: string;
+  success: boolean;
+  error?: { code: TinylocketErrorCode; message: string };
+  data?: unknown;
+}
+
+const VAULT_MESSAGE_TYPES = new Set<string>(Object.values(VAULT_MESSAGE_TYPE));
+
+/**
+ * Check if a message is a vault (popup) message.
+ */
+export function isVaultMessage(message: { type: string }): message is VaultMessage {
+  return VAULT_MESSAGE_TYPES.has(message.type);
+}
+
+/**
+ * Check if a message was sent by one of our own extension pages (e.g. the popup),
+ * rather than by a content script relaying a web page.
+ */
+export function isExtensionPageSender(sender: chrome.runtime.MessageSender): boolean {
+  return (
+    sender.id === chrome.runtime.id &&
+    !sender.tab &&
+    !!sender.url?.startsWith(chrome.runtime.getURL(''))
+  );
+}
+
+/**
+ * Handle vault messages from the popup.
+ * The background worker is the only context that holds decrypted keys.
+ */
+export async function handleVaultMessage(
+  message: VaultMessage,
+  sender: chrome.runtime.MessageSender
+): Promise<VaultResponse> {
+  const requestId = message.requestId || uuidv4();
+
+  if (!isExtensionPageSender(sender)) {
+    return failure(requestId, 'INVALID_REQUEST', 'Vault messages are only accepted from the extension');
+  }
+
+  try {
+    const data = await dispatchVaultMessage(message);
+    return {
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: true,
+      data,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Vault operation failed';
+    const code: TinylocketErrorCode = vaultService.isUnlocked() ? 'INVALID_REQUEST' : 'LOCKED';
+    return failure(requestId, code, errorMessage);
+  }
+}
+
+async function dispatchVaultMessage(message: VaultMessage): Promise<unknown> {
+  const payload = message.payload ?? {};
+
+  switch (message.type) {
+    case VAULT_MESSAGE_TYPE.GET_STATE: {
+      const state: VaultState = {
+        hasVault: await vaultService.exists(),
+        isUnlocked: vaultService.isUnlocked(),
+        hasRecoveryCode: await vaultService.hasRecoveryCode(),
+        lockedUntil: await vaultService.getLockedUntil(),
+      };
+      return state;
+    }
+
+    case VAULT_MESSAGE_TYPE.CREATE:
+      return sessionService.create(requireField(payload.password, 'password'));
+
+    case VAULT_MESSAGE_TYPE.UNLOCK:
+      return sessionService.unlock(requireField(payload.password, 'password'));
+
+    case VAULT_MESSAGE_TYPE.RECOVER:
+      return sessionService.recover(
+        requireField(payload.recoveryCode, 'recoveryCode'),
+        requireField(payload.newPassword, 'newPassword')
+      );
+
+    case VAULT_MESSAGE_TYPE.CREATE_RECOVERY_CODE:
+      await sessionService.recordActivity();
+      return vaultService.createRecoveryCode(requireField(payload.password, 'password'));
+
+    case VAULT_MESSAGE_TYPE.LOCK:
+      sessionService.lock();
+      return null;
+
+    case VAULT_MESSAGE_TYPE.LIST_KEYS:
+      return vaultService.isUnlocked() ? vaultService.listKeys() : [];
+
+    case VAULT_MESSAGE_TYPE.ADD_KEY: {
+      await sessionService.recordActivity();
+      const entry = await vaultService.addKey(
+        requireField(payload.provider, 'provider'),
+        requireField(payload.name, 'name'),
+        payload.apiKey ?? '',
+        payload.settings
+      );
+      return entry.id;
+    }
+
+    case VAULT_MESSAGE_TYPE.UPDATE_KEY: {
+      await sessionService.recordActivity();
+      const updated = await vaultService.updateKey(
+        requireField(payload.id, 'id'),
+        requireField(payload.updates, 'updates')
+      );
+      return updated?.id ?? null;
+    }
+
+    case VAULT_MESSAGE_TYPE.DELETE_KEY:
+      await sessionService.recordActivity();
+      return vaultService.deleteKey(requireField(payload.id, 'id'));
+
+    case VAULT_MESSAGE_TYPE.SET_DEFAULT_KEY:
+      await sessionService.recordActivity();
+      return vaultService.setDefaultKey(requireField(payload.id, 'id'));
+
+    case VAULT_MESSAGE_TYPE.TEST_KEY:
+      await sessionService.recordActivity();
+      return validateKey(requireField(payload.id, 'id'));
+
+    case VAULT_MESSAGE_TYPE.EXPORT_BACKUP:
+      await sessionService.recordActivity();
+      return backupService.export(requireField(payload.password, 'password'), {
+        passphrase: payload.passphrase,
+        includeHistory: payload.includeHistory,
+      });
+
+    case VAULT_MESSAGE_TYPE.IMPORT_BACKUP:
+      await sessionService.recordActivity();
+      return backupService.import(
+        requireField(payload.backup, 'backup'),
+        requireField(payload.passphrase, 'passphrase'),
+        payload.mode ?? 'merge',
+        payload.strategy ?? 'skip'
+      );
+  }
+}
+
+function requireField<T>(value: T | undefined, name: string): T {
+  if (value === undefined) {
+    throw new Error(`Missing field: ${name}`);
+  }
+  return value;
+}
+
+function failure(requestId: string, code: TinylocketErrorCode, message: string): VaultResponse {
+  return {
+    type: MESSAGE_TYPE.RESPONSE,
+    requestId,
+    success: false,
+    error: { code, message },
+  };
+}
@@ -1,4 +1,16 @@
-import { MESSAGE_TARGET, MESSAGE_TYPE } from '../shared/types/messages';
+import {
+  MESSAGE_TARGET,
+  MESSAGE_TYPE,
+  STREAM_MESSAGE_TYPE,
+  STREAM_PORT_NAME,
+  type BodyPart,
+  type EncodedPart,
+  type RequestBodyEnvelope,
+  type StreamPortAck,
+  type StreamPortCancel,
+  type StreamPortChunk,
+} from '../shared/types/messages';
+import { bytesToBase64 } from '../shared/base64';
 
 /**
  * Content script that bridges communication between the page and the extension.
@@ -17,6 +29,91 @@ function injectInpageScript() {
 // Inject as early as possible
 injectInpageScript();
 
+// Open stream ports by request id, so the page can cancel them
+const streamPorts = new Map<string, chrome.runtime.Port>();
+
+// Post a message to the page (inpage script)
+function postToPage(message: Record<string, unknown>) {
+  window.postMessage({ target: MESSAGE_TARGET.INPAGE, ...message }, window.location.origin);
+}
+
+/**
+ * Base64-encode the Blobs and ArrayBuffers of a request body envelope, since
+ * runtime messages and ports only carry JSON.
+ */
+async function encodeRawBody(
+  envelope: RequestBodyEnvelope
+): Promise<RequestBodyEnvelope<EncodedPart>> {
+  const encode = async (part: BodyPart): Promise<EncodedPart> => {
+    const buffer = part instanceof Blob ? await part.arrayBuffer() : part;
+    return {
+      base64: bytesToBase64(new Uint8Array(buffer)),
+      contentType: part instanceof Blob ? part.type : '',
+    };
+  };
+
+  if (envelope.kind === 'binary') {
+    return { ...envelope, data: await encode(envelope.data) };
+  }
+  const fields = await Promise.all(
+    envelope.fields.map(async ({ value, ...field }) => ({
+      ...field,
+      value: typeof value === 'string' ? value : await encode(value),
+    }))
+  );
+  return { kind: 'multipart', fields };
+}
+
+/**
+ * Run a streaming request over its own port, so chunks reach only this frame, in order.
+ * Each chunk is acked once it has been handed to the page.
+ */
+function streamRequest(requestId: string, payload: unknown) {
+  const port = chrome.runtime.connect({ name: STREAM_PORT_NAME });
+  streamPorts.set(requestId, port);
+  let settled = false;
+
+  port.onMessage.addListener((message) => {
+    if (message.type === MESSAGE_TYPE.STREAM_CHUNK) {
+      const chunk = message as StreamPortChunk;
+      postToPage({
+        type: MESSAGE_TYPE.STREAM_CHUNK,
+        requestId,
+        chunk: chunk.chunk,
+        event: chunk.event,
+        done: chunk.done,
+      });
+      const ack: StreamPortAck = { type: STREAM_MESSAGE_TYPE.ACK, seq: chunk.seq };
+      port.postMessage(ack);
+      return;
+    }
+
+    // Final response
+    settled = true;
+    postToPage({ ...message, type: MESSAGE_TYPE.RESPONSE, requestId });
+    streamPorts.delete(requestId);
+    port.disconnect();
+  });
+
+  port.onDisconnect.addListener(() => {
+    streamPorts.delete(requestId);
+    if (settled) return;
+    postToPage({
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Connection to the extension was lost' },
+    });
+  });
+
+  port.postMessage({
+    type: MESSAGE_TYPE.REQUEST,
+    requestId,
+    payload,
+    origin: window.location.origin,
+  });
+}
+
 // Listen for messages from the page (inpage script)
 window.addEventListener('message', async (event) => {
   // Only accept messages from the same window
@@ -25,7 +122,43 @@ window.addEventListener('message', async (event) => {
   // Only accept messages targeted at content script
   if (event.data?.target !== MESSAGE_TARGET.CONTENT_SCRIPT) return;
 
-  const { type, requestId, payload } = event.data;
+  const { type, requestId } = event.data;
+  let { payload } = event.data;
+
+  // Multipart and binary bodies must be encoded before they can leave the page's context
+  if (type === MESSAGE_TYPE.REQUEST && payload?.rawBody) {
+    try {
+      payload = { ...payload, rawBody: await encodeRawBody(payload.rawBody) };
+    } catch (error) {
+      postToPage({
+        type: MESSAGE_TYPE.RESPONSE,
+        requestId,
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: error instanceof Error ? error.message : 'Could not read the request body',
+        },
+      });
+      return;
+    }
+  }
+
+  if (type === MESSAGE_TYPE.REQUEST && payload?.stream) {
+    streamRequest(requestId, payload);
+    return;
+  }
+
+  // Cancellation is fire-and-forget; the request itself reports the outcome
+  if (type === MESSAGE_TYPE.CANCEL) {
+    const port = streamPorts.get(requestId);
+    if (port) {
+      const cancel: StreamPortCancel = { type: STREAM_MESSAGE_TYPE.CANCEL };
+      port.postMessage(cancel);
+    } else {
+      chrome.runtime.sendMessage({ type, requestId }).catch(() => {});
+    }
+    return;
+  }
 
   try {
     // Forward message to background script
@@ -37,47 +170,22 @@ window.addEventListener('message', async (event) => {
     });
 
     // Send response back to page
-    window.postMessage(
-      {
-        target: MESSAGE_TARGET.INPAGE,
-        type: MESSAGE_TYPE.RESPONSE,
-        requestId,
-        ...response,
-      },
-      window.location.origin
-    );
+    postToPage({
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      ...response,
+    });
   } catch (error) {
     // Send error back to page
-    window.postMessage(
-      {
-        target: MESSAGE_TARGET.INPAGE,
-        type: MESSAGE_TYPE.RESPONSE,
-        requestId,
-        success: false,
-        error: {
-          code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error',
-        },
-      },
-      window.location.origin
-    );
-  }
-});
-
-// Listen for streaming chunks from background
-chrome.runtime.onMessage.addListener((message) => {
-  if (message.type === 'TINYLOCKET_STREAM_CHUNK') {
-    // Forward to page
-    window.postMessage(
-      {
-        target: MESSAGE_TARGET.INPAGE,
-        type: MESSAGE_TYPE.STREAM_CHUNK,
-        requestId: message.requestId,
-        chunk: message.chunk,
-        done: message.done,
+    postToPage({
+      type: MESSAGE_TYPE.RESPONSE,
+      requestId,
+      success: false,
+      error: {
+        code: 'NETWORK_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
       },
-      window.location.origin
-    );
+    });
   }
 });
 
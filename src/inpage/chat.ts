@@ -0,0 +1,753 @@
+import {
+  CUSTOM_PROVIDER_CHAT,
+  getProviderById,
+  isCustomProviderId,
+  type ChatApi,
+  type LlmProvider,
+} from '../shared/types/providers';
+
+/**
+ * Provider-agnostic chat schema for tinylocket.chat, and the adapters that
+ * translate it to and from each provider's native chat API.
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls?: ChatToolCall[]; // Assistant messages that called tools
+  toolCallId?: string; // Tool messages: the call this result answers
+}
+
+export interface ChatTool {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export interface ChatParams {
+  provider: LlmProvider;
+  model: string;
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+}
+
+export type ChatFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'other';
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatResponse {
+  message: ChatMessage;
+  finishReason: ChatFinishReason | null;
+  usage?: ChatUsage;
+  raw: unknown; // The provider's native response
+}
+
+// Tool call fragments are keyed by index; arguments arrive as JSON text pieces
+export interface ChatToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface ChatDelta {
+  content?: string;
+  toolCalls?: ChatToolCallDelta[];
+  finishReason?: ChatFinishReason;
+  usage?: ChatUsage;
+}
+
+// Responses and stream events arrive as untyped JSON; adapters read them through the
+// payload interfaces below, whose fields are all optional
+interface ChatAdapter {
+  buildBody(params: ChatParams): unknown;
+  parseResponse(body: object): Omit<ChatResponse, 'raw'>;
+  createDeltaParser(): (data: object) => ChatDelta | null;
+}
+
+/**
+ * Build the native endpoint and body for a chat request.
+ */
+export function buildChatRequest(params: ChatParams): { endpoint: string; body: unknown } {
+  const { chatApi, chatEndpoint } = getChatConfig(params.provider);
+  let endpoint = chatEndpoint.replace('{model}', encodeURIComponent(params.model));
+  if (chatApi === 'gemini' && params.stream) {
+    endpoint = endpoint.replace(':generateContent', ':streamGenerateContent?alt=sse');
+  }
+  if (chatApi === 'bedrock_anthropic' && params.stream) {
+    endpoint = endpoint.replace(/\/invoke$/, '/invoke-with-response-stream');
+  }
+  return { endpoint, body: ADAPTERS[chatApi].buildBody(params) };
+}
+
+/**
+ * Normalize a provider's non-streaming chat response.
+ */
+export function parseChatResponse(provider: LlmProvider, body: unknown): ChatResponse {
+  const { chatApi } = getChatConfig(provider);
+  const payload = body && typeof body === 'object' ? body : {};
+  return { ...ADAPTERS[chatApi].parseResponse(payload), raw: body };
+}
+
+/**
+ * Create a parser that turns a provider's stream events (decoded data) into deltas.
+ * Parsers keep state across events, so use one per stream.
+ */
+export function createChatDeltaParser(provider: LlmProvider): (data: unknown) => ChatDelta | null {
+  const { chatApi } = getChatConfig(provider);
+  const parse = ADAPTERS[chatApi].createDeltaParser();
+  return (data) => (data && typeof data === 'object' ? parse(data) : null);
+}
+
+// The page can't see the user's custom providers, but they all speak the OpenAI chat API
+function getChatConfig(provider: LlmProvider): { chatApi: ChatApi; chatEndpoint: string } {
+  const config =
+    getProviderById(provider) ?? (isCustomProviderId(provider) ? CUSTOM_PROVIDER_CHAT : undefined);
+  if (!config) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+  return config;
+}
+
+function parseArguments(json: string | undefined): Record<string, unknown> {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toJsonSchema(tool: ChatTool): Record<string, unknown> {
+  return tool.parameters ?? { type: 'object', properties: {} };
+}
+
+/**
+ * Merge consecutive entries with the same role (required by Anthropic and Gemini).
+ */
+function mergeByRole<T extends { role: string }>(
+  entries: T[],
+  merge: (previous: T, next: T) => T
+): T[] {
+  const merged: T[] = [];
+  for (const entry of entries) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === entry.role) {
+      merged[merged.length - 1] = merge(last, entry);
+    } else {
+      merged.push(entry);
+    }
+  }
+  return merged;
+}
+
+interface OpenAiToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAiMessage {
+  content?: string | null;
+  tool_calls?: OpenAiToolCall[];
+}
+
+// A chat completion, or a chunk of one (with delta instead of message)
+interface OpenAiPayload {
+  choices?: { message?: OpenAiMessage; delta?: OpenAiMessage; finish_reason?: string | null }[];
+  usage?: OpenAiUsage;
+}
+
+function mapOpenAiUsage(usage: OpenAiUsage | undefined): ChatUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+}
+
+// OpenAI chat completions; also used by the OpenAI-compatible providers
+const openaiAdapter: ChatAdapter = {
+  buildBody(params) {
+    return {
+      model: params.model,
+      messages: params.messages.map((m) => {
+        if (m.role === 'tool') {
+          return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+        }
+        if (m.role === 'assistant' && m.toolCalls?.length) {
+          return {
+            role: 'assistant',
+            content: m.content || null,
+            tool_calls: m.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          };
+        }
+        return { role: m.role, content: m.content };
+      }),
+      tools: params.tools?.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool) },
+      })),
+      temperature: params.temperature,
+      max_tokens: params.maxTokens,
+      stream: params.stream || undefined,
+      // Only OpenAI itself is known to accept this; it adds usage to the last chunk
+      stream_options: params.stream && params.provider === 'openai' ? { include_usage: true } : undefined,
+    };
+  },
+
+  parseResponse(body) {
+    const response: OpenAiPayload = body;
+    const choice = response.choices?.[0] ?? {};
+    const toolCalls: ChatToolCall[] | undefined = choice.message?.tool_calls?.map((call) => ({
+      id: call.id ?? '',
+      name: call.function?.name ?? '',
+      arguments: parseArguments(call.function?.arguments),
+    }));
+    return {
+      message: { role: 'assistant', content: choice.message?.content ?? '', toolCalls },
+      finishReason: mapOpenAiFinish(choice.finish_reason),
+      usage: mapOpenAiUsage(response.usage),
+    };
+  },
+
+  createDeltaParser() {
+    return (data) => {
+      const chunk: OpenAiPayload = data;
+      const delta: ChatDelta = {};
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) delta.content = choice.delta.content;
+      if (choice?.delta?.tool_calls) {
+        delta.toolCalls = choice.delta.tool_calls.map((call) => ({
+          index: call.index ?? 0,
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        }));
+      }
+      if (choice?.finish_reason) {
+        delta.finishReason = mapOpenAiFinish(choice.finish_reason) ?? undefined;
+      }
+      if (chunk.usage) {
+        delta.usage = mapOpenAiUsage(chunk.usage);
+      }
+      return Object.keys(delta).length > 0 ? delta : null;
+    };
+  },
+};
+
+function mapOpenAiFinish(reason: string | null | undefined): ChatFinishReason | null {
+  if (!reason) return null;
+  if (reason === 'stop' || reason === 'length' || reason === 'tool_calls' || reason === 'content_filter') {
+    return reason;
+  }
+  return reason === 'function_call' ? 'tool_calls' : 'other';
+}
+
+interface AnthropicContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  index?: number;
+  message?: { usage?: AnthropicUsage };
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+}
+
+// Anthropic Messages API
+const anthropicAdapter: ChatAdapter = {
+  buildBody(params) {
+    const system = params.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const messages = params.messages
+      .filter((m) => m.role !== 'system')
+      .map((m): { role: string; content: Record<string, unknown>[] } => {
+        if (m.role === 'tool') {
+          return {
+            role: 'user',
+            content: [{ type: 'tool_result', tool_use_id: m.toolCallId, content: m.content }],
+          };
+        }
+        const content: Record<string, unknown>[] = m.content ? [{ type: 'text', text: m.content }] : [];
+        for (const call of m.toolCalls ?? []) {
+          content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+        }
+        return { role: m.role, content };
+      });
+
+    return {
+      model: params.model,
+      system: system || undefined,
+      messages: mergeByRole(messages, (a, b) => ({ role: a.role, content: [...a.content, ...b.content] })),
+      tools: params.tools?.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: toJsonSchema(tool),
+      })),
+      temperature: params.temperature,
+      max_tokens: params.maxTokens ?? 4096, // Required by the API
+      stream: params.stream || undefined,
+    };
+  },
+
+  parseResponse(body) {
+    const response: AnthropicResponse = body;
+    const blocks = response.content ?? [];
+    const toolCalls = blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id ?? '', name: block.name ?? '', arguments: block.input ?? {} }));
+    return {
+      message: {
+        role: 'assistant',
+        content: blocks
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text)
+          .join(''),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      finishReason: mapAnthropicFinish(response.stop_reason),
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.input_tokens ?? 0,
+            outputTokens: response.usage.output_tokens ?? 0,
+          }
+        : undefined,
+    };
+  },
+
+  createDeltaParser() {
+    // Content block index -> tool call index
+    const toolIndexes = new Map<number, number>();
+    let inputTokens = 0;
+
+    return (data) => {
+      const event: AnthropicStreamEvent = data;
+      const blockIndex = event.index ?? 0;
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens ?? 0;
+          return null;
+
+        case 'content_block_start': {
+          if (event.content_block?.type !== 'tool_use') return null;
+          const index = toolIndexes.size;
+          toolIndexes.set(blockIndex, index);
+          return {
+            toolCalls: [
+              { index, id: event.content_block.id, name: event.content_block.name, arguments: '' },
+            ],
+          };
+        }
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            return { content: event.delta.text };
+          }
+          if (event.delta?.type === 'input_json_delta') {
+            return {
+              toolCalls: [{ index: toolIndexes.get(blockIndex) ?? 0, arguments: event.delta.partial_json }],
+            };
+          }
+          return null;
+
+        case 'message_delta':
+          return {
+            finishReason: mapAnthropicFinish(event.delta?.stop_reason) ?? undefined,
+            usage: { inputTokens, outputTokens: event.usage?.output_tokens ?? 0 },
+          };
+
+        default:
+          return null;
+      }
+    };
+  },
+};
+
+function mapAnthropicFinish(reason: string | null | undefined): ChatFinishReason | null {
+  switch (reason) {
+    case undefined:
+    case null:
+      return null;
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return 'other';
+  }
+}
+
+// Anthropic Messages on Bedrock: the model is in the path and the version in the body
+const bedrockAnthropicAdapter: ChatAdapter = {
+  ...anthropicAdapter,
+  buildBody(params) {
+    const anthropicBody = anthropicAdapter.buildBody(params) as Record<string, unknown>;
+    const { model: _model, stream: _stream, ...body } = anthropicBody;
+    return { ...body, anthropic_version: 'bedrock-2023-05-31' };
+  },
+};
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: { id?: string; name?: string; args?: Record<string, unknown> };
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+// A response, or one chunk of a streamed response
+interface GeminiPayload {
+  candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+  usageMetadata?: GeminiUsage;
+}
+
+/**
+ * Function calls of a Gemini response, which may omit their ids.
+ */
+function getGeminiCalls(parts: GeminiPart[]): NonNullable<GeminiPart['functionCall']>[] {
+  return parts.flatMap((part) => (part.functionCall ? [part.functionCall] : []));
+}
+
+function getGeminiText(parts: GeminiPart[]): string {
+  return parts
+    .filter((part) => typeof part.text === 'string' && !part.thought)
+    .map((part) => part.text)
+    .join('');
+}
+
+// Gemini generateContent
+const geminiAdapter: ChatAdapter = {
+  buildBody(params) {
+    // Function responses are matched to calls by name, not id
+    const toolNames = new Map<string, string>();
+    for (const m of params.messages) {
+      for (const call of m.toolCalls ?? []) toolNames.set(call.id, call.name);
+    }
+
+    const system = params.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+
+    const contents = params.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => {
+        if (m.role === 'tool') {
+          const result = parseArguments(m.content);
+          return {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: toolNames.get(m.toolCallId ?? '') ?? m.toolCallId,
+                  response: Object.keys(result).length > 0 ? result : { content: m.content },
+                },
+              },
+            ],
+          };
+        }
+        const parts: Record<string, unknown>[] = m.content ? [{ text: m.content }] : [];
+        for (const call of m.toolCalls ?? []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+        return { role: m.role === 'assistant' ? 'model' : 'user', parts };
+      });
+
+    return {
+      contents: mergeByRole(contents, (a, b) => ({ role: a.role, parts: [...a.parts, ...b.parts] })),
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      tools: params.tools?.length
+        ? [
+            {
+              functionDeclarations: params.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                parameters: toJsonSchema(tool),
+              })),
+            },
+          ]
+        : undefined,
+      generationConfig: {
+        temperature: params.temperature,
+        maxOutputTokens: params.maxTokens,
+      },
+    };
+  },
+
+  parseResponse(body) {
+    const response: GeminiPayload = body;
+    const candidate = response.candidates?.[0] ?? {};
+    const parts = candidate.content?.parts ?? [];
+    const toolCalls = getGeminiCalls(parts).map((call, index) => ({
+      id: call.id ?? `call_${index}`,
+      name: call.name ?? '',
+      arguments: call.args ?? {},
+    }));
+    return {
+      message: {
+        role: 'assistant',
+        content: getGeminiText(parts),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      finishReason: mapGeminiFinish(candidate.finishReason, toolCalls.length > 0),
+      usage: mapGeminiUsage(response.usageMetadata),
+    };
+  },
+
+  createDeltaParser() {
+    let toolCount = 0;
+
+    return (data) => {
+      const chunk: GeminiPayload = data;
+      const candidate = chunk.candidates?.[0];
+      const parts = candidate?.content?.parts ?? [];
+      const delta: ChatDelta = {};
+
+      const text = getGeminiText(parts);
+      if (text) delta.content = text;
+
+      // Gemini sends each function call whole, in a single chunk
+      const calls = getGeminiCalls(parts);
+      if (calls.length > 0) {
+        delta.toolCalls = calls.map((call) => {
+          const index = toolCount++;
+          return {
+            index,
+            id: call.id ?? `call_${index}`,
+            name: call.name,
+            arguments: JSON.stringify(call.args ?? {}),
+          };
+        });
+      }
+
+      if (candidate?.finishReason) {
+        delta.finishReason = mapGeminiFinish(candidate.finishReason, toolCount > 0) ?? undefined;
+        delta.usage = mapGeminiUsage(chunk.usageMetadata);
+      }
+      return Object.keys(delta).length > 0 ? delta : null;
+    };
+  },
+};
+
+function mapGeminiFinish(reason: string | undefined, hasToolCalls: boolean): ChatFinishReason | null {
+  switch (reason) {
+    case undefined:
+    case 'FINISH_REASON_UNSPECIFIED':
+      return null;
+    case 'STOP':
+      return hasToolCalls ? 'tool_calls' : 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter';
+    default:
+      return 'other';
+  }
+}
+
+function mapGeminiUsage(usage: GeminiUsage | undefined): ChatUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 };
+}
+
+interface CohereUsage {
+  billed_units?: { input_tokens?: number; output_tokens?: number };
+  tokens?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface CohereResponse {
+  message?: {
+    content?: { type?: string; text?: string }[];
+    tool_calls?: OpenAiToolCall[];
+  };
+  finish_reason?: string;
+  usage?: CohereUsage;
+}
+
+interface CohereStreamEvent {
+  type?: string;
+  index?: number;
+  delta?: {
+    message?: { content?: { text?: string }; tool_calls?: OpenAiToolCall };
+    finish_reason?: string;
+    usage?: CohereUsage;
+  };
+}
+
+// Cohere chat (v2)
+const cohereAdapter: ChatAdapter = {
+  buildBody(params) {
+    return {
+      model: params.model,
+      messages: params.messages.map((m) => {
+        if (m.role === 'tool') {
+          return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+        }
+        if (m.role === 'assistant' && m.toolCalls?.length) {
+          return {
+            role: 'assistant',
+            content: m.content || undefined,
+            tool_calls: m.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          };
+        }
+        return { role: m.role, content: m.content };
+      }),
+      tools: params.tools?.map((tool) => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool) },
+      })),
+      temperature: params.temperature,
+      max_tokens: params.maxTokens,
+      stream: params.stream || undefined,
+    };
+  },
+
+  parseResponse(body) {
+    const response: CohereResponse = body;
+    const message = response.message ?? {};
+    const toolCalls: ChatToolCall[] | undefined = message.tool_calls?.map((call) => ({
+      id: call.id ?? '',
+      name: call.function?.name ?? '',
+      arguments: parseArguments(call.function?.arguments),
+    }));
+    return {
+      message: {
+        role: 'assistant',
+        content: (message.content ?? [])
+          .filter((part) => part.type === 'text')
+          .map((part) => part.text)
+          .join(''),
+        toolCalls,
+      },
+      finishReason: mapCohereFinish(response.finish_reason),
+      usage: mapCohereUsage(response.usage),
+    };
+  },
+
+  createDeltaParser() {
+    return (data) => {
+      const event: CohereStreamEvent = data;
+      const message = event.delta?.message;
+      switch (event.type) {
+        case 'content-delta':
+          return message?.content?.text ? { content: message.content.text } : null;
+
+        case 'tool-call-start':
+          return {
+            toolCalls: [
+              {
+                index: event.index ?? 0,
+                id: message?.tool_calls?.id,
+                name: message?.tool_calls?.function?.name,
+                arguments: message?.tool_calls?.function?.arguments ?? '',
+              },
+            ],
+          };
+
+        case 'tool-call-delta':
+          return {
+            toolCalls: [
+              { index: event.index ?? 0, arguments: message?.tool_calls?.function?.arguments ?? '' },
+            ],
+          };
+
+        case 'message-end':
+          return {
+            finishReason: mapCohereFinish(event.delta?.finish_reason) ?? undefined,
+            usage: mapCohereUsage(event.delta?.usage),
+          };
+
+        default:
+          return null;
+      }
+    };
+  },
+};
+
+function mapCohereFinish(reason: string | undefined): ChatFinishReason | null {
+  switch (reason) {
+    case undefined:
+      return null;
+    case 'COMPLETE':
+    case 'STOP_SEQUENCE':
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'TOOL_CALL':
+      return 'tool_calls';
+    default:
+      return 'other';
+  }
+}
+
+function mapCohereUsage(usage: CohereUsage | undefined): ChatUsage | undefined {
+  const tokens = usage?.billed_units ?? usage?.tokens;
+  if (!tokens) return undefined;
+  return { inputTokens: tokens.input_tokens ?? 0, outputTokens: tokens.output_tokens ?? 0 };
+}
+
+const ADAPTERS: Record<ChatApi, ChatAdapter> = {
+  openai: openaiAdapter,
+  anthropic: anthropicAdapter,
+  bedrock_anthropic: bedrockAnthropicAdapter,
+  gemini: geminiAdapter,
+  cohere: cohereAdapter,
+};
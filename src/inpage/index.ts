@@ -1,5 +1,20 @@
-import { MESSAGE_TARGET, MESSAGE_TYPE } from '../shared/types/messages';
+import {
+  MESSAGE_TARGET,
+  MESSAGE_TYPE,
+  type EncodedBody,
+  type RequestBodyEnvelope,
+  type ResponseType,
+} from '../shared/types/messages';
+import { base64ToBytes } from '../shared/base64';
 import type { LlmProvider } from '../shared/types/providers';
+import {
+  buildChatRequest,
+  createChatDeltaParser,
+  parseChatResponse,
+  type ChatDelta,
+  type ChatParams,
+  type ChatResponse,
+} from './chat';
 
 /**
  * Inpage script that runs in the page context and provides the window.tinylocket API.
@@ -10,15 +25,23 @@ interface TinylocketRequest {
   endpoint: string;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   headers?: Record<string, string>;
-  body?: unknown;
+  body?: unknown; // JSON, or FormData / Blob / ArrayBuffer / typed array for multipart and binary uploads
   stream?: boolean;
-  endpointUrl?: string;
+  keyId?: string; // Opaque key id from getProviders(); defaults to the provider's default key
+  signal?: AbortSignal; // Aborting cancels the provider request in the extension too
+  timeoutMs?: number; // Enforced by the extension, which rejects with code TIMEOUT
+  retry?: boolean | { maxAttempts?: number; maxDelayMs?: number }; // Retry 429/5xx with backoff
+  responseType?: ResponseType; // request() only; defaults to JSON, text or ArrayBuffer by content type
 }
 
+type ChatOptions = ChatParams &
+  Pick<TinylocketRequest, 'keyId' | 'signal' | 'timeoutMs' | 'retry'>;
+
 interface TinylocketResponse<T = unknown> {
   status: number;
   headers: Record<string, string>;
   data: T;
+  droppedHeaders?: string[]; // Request headers the provider's header policy did not let through
 }
 
 interface TinylocketStatus {
@@ -27,13 +50,30 @@ interface TinylocketStatus {
   version: string;
 }
 
+interface StreamEvent {
+  event: string; // SSE event type; 'message' when unnamed
+  data: unknown; // JSON-decoded when possible
+  id?: string;
+}
+
+interface KeyInfo {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
 interface ProviderInfo {
   id: LlmProvider;
   name: string;
   hasKey: boolean;
+  keys: KeyInfo[];
 }
 
-type StreamCallback = (chunk: string, done: boolean) => void;
+type StreamCallback = (chunk: string, done: boolean, event?: StreamEvent) => void;
+
+// Timeout for control messages (ping, status, providers). API requests are
+// timed by the extension itself, using the request's timeoutMs.
+const CONTROL_TIMEOUT_MS = 30000;
 
 // Pending requests waiting for responses
 const pendingRequests = new Map<
@@ -50,25 +90,99 @@ function generateRequestId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Error thrown when a request is aborted through its AbortSignal
+function abortError(): Error {
+  const err = new Error('Request was cancelled');
+  err.name = 'AbortError';
+  (err as Error & { code: string }).code = 'CANCELLED';
+  return err;
+}
+
+// Error for a non-2xx provider response, where a caller expects success
+function providerError(status: number, body: unknown): Error {
+  const details = body as { error?: { message?: string } | string; message?: string } | undefined;
+  const message =
+    (typeof details?.error === 'string' ? details.error : details?.error?.message) ||
+    details?.message ||
+    (typeof body === 'string' && body) ||
+    `Provider returned HTTP ${status}`;
+  const err = new Error(message);
+  Object.assign(err, { code: 'PROVIDER_ERROR', status, body });
+  return err;
+}
+
+// Move a FormData or binary body into a structured-clone-safe envelope; other bodies are sent as JSON
+function toRequestPayload(request: Omit<TinylocketRequest, 'signal'>) {
+  const { body } = request;
+  let rawBody: RequestBodyEnvelope | undefined;
+
+  if (body instanceof FormData) {
+    const fields = [...body.entries()].map(([name, value]) =>
+      typeof value === 'string' ? { name, value } : { name, value, filename: value.name }
+    );
+    rawBody = { kind: 'multipart', fields };
+  } else if (body instanceof Blob || body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    const data = ArrayBuffer.isView(body)
+      ? (body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer)
+      : body;
+    const headerType = Object.entries(request.headers ?? {}).find(
+      ([name]) => name.toLowerCase() === 'content-type'
+    )?.[1];
+    const contentType = (body instanceof Blob && body.type) || headerType || 'application/octet-stream';
+    rawBody = { kind: 'binary', data, contentType };
+  }
+
+  return rawBody ? { ...request, body: undefined, rawBody } : request;
+}
+
+// Ask the extension to abort an in-flight request
+function postCancel(requestId: string): void {
+  window.postMessage(
+    {
+      target: MESSAGE_TARGET.CONTENT_SCRIPT,
+      type: MESSAGE_TYPE.CANCEL,
+      requestId,
+    },
+    window.location.origin
+  );
+}
+
 // Send message to content script
-function sendMessage(type: string, payload?: unknown): Promise<unknown> {
+function sendMessage(type: string, payload?: unknown, signal?: AbortSignal): Promise<unknown> {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
     const requestId = generateRequestId();
 
+    const onAbort = () => {
+      postCancel(requestId);
+      pendingRequests.get(requestId)?.reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     // Set up timeout
-    const timeout = setTimeout(() => {
-      pendingRequests.delete(requestId);
-      reject(new Error('Request timed out'));
-    }, 30000);
+    const timeout =
+      type === MESSAGE_TYPE.REQUEST
+        ? undefined
+        : setTimeout(() => {
+            const err = new Error('Request timed out');
+            (err as Error & { code: string }).code = 'TIMEOUT';
+            pendingRequests.get(requestId)?.reject(err);
+          }, CONTROL_TIMEOUT_MS);
 
     pendingRequests.set(requestId, {
       resolve: (value) => {
         clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
         pendingRequests.delete(requestId);
         resolve(value);
       },
       reject: (error) => {
         clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
         pendingRequests.delete(requestId);
         reject(error);
       },
@@ -91,13 +205,13 @@ window.addEventListener('message', (event) => {
   if (event.source !== window) return;
   if (event.data?.target !== MESSAGE_TARGET.INPAGE) return;
 
-  const { type, requestId, success, error, data, chunk, done } = event.data;
+  const { type, requestId, success, error, data, chunk, event: streamEvent, done } = event.data;
 
   // Handle streaming chunks
   if (type === MESSAGE_TYPE.STREAM_CHUNK) {
     const pending = pendingRequests.get(requestId);
     if (pending?.streamCallback) {
-      pending.streamCallback(chunk, done);
+      pending.streamCallback(chunk, done, streamEvent);
       if (done) {
         pending.resolve({ status: 200, headers: {}, data: null });
       }
@@ -114,10 +228,152 @@ window.addEventListener('message', (event) => {
   } else {
     const err = new Error(error?.message || 'Unknown error');
     (err as Error & { code: string }).code = error?.code || 'NETWORK_ERROR';
+    // RATE_LIMITED errors say when to try again
+    if (error?.retryAfterMs !== undefined) {
+      (err as Error & { retryAfterMs: number }).retryAfterMs = error.retryAfterMs;
+    }
     pending.reject(err);
   }
 });
 
+/**
+ * Run a streaming request and yield what `select` picks from each chunk message.
+ * The stream ends early when its signal is aborted or the consumer stops iterating.
+ */
+async function* openStream<T>(
+  options: TinylocketRequest,
+  format: 'text' | 'sse',
+  select: (chunk: string, event?: StreamEvent) => T | undefined
+): AsyncGenerator<T, void, unknown> {
+  const { signal, ...request } = options;
+  if (signal?.aborted) return;
+
+  const requestId = generateRequestId();
+  const items: T[] = [];
+  let done = false;
+  let error: Error | null = null;
+
+  // The final response (or failure) ends the stream; chunks queue items meanwhile
+  pendingRequests.set(requestId, {
+    resolve: (value) => {
+      pendingRequests.delete(requestId);
+      // Provider errors arrive as a final response instead of chunks
+      const result = value as { status?: number; body?: unknown } | undefined;
+      if (result?.status !== undefined && (result.status < 200 || result.status >= 300)) {
+        error = providerError(result.status, parseBody(result.body));
+      }
+      done = true;
+    },
+    reject: (err) => {
+      pendingRequests.delete(requestId);
+      error = err;
+      done = true;
+    },
+    streamCallback: (chunk, isDone, event) => {
+      const item = select(chunk, event);
+      if (item !== undefined) {
+        items.push(item);
+      }
+      if (isDone) {
+        done = true;
+      }
+    },
+  });
+
+  // Send the request
+  window.postMessage(
+    {
+      target: MESSAGE_TARGET.CONTENT_SCRIPT,
+      type: MESSAGE_TYPE.REQUEST,
+      requestId,
+      payload: { ...toRequestPayload(request), stream: true, format },
+    },
+    window.location.origin
+  );
+
+  const cancel = () => {
+    postCancel(requestId);
+    pendingRequests.delete(requestId);
+    items.length = 0;
+    done = true;
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    // Yield items as they arrive
+    while (!done || items.length > 0) {
+      if (items.length > 0) {
+        yield items.shift()!;
+      } else if (!done) {
+        // Wait a bit for more chunks
+        await new Promise((r) => setTimeout(r, 10));
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    if (!done) {
+      cancel();
+    }
+  }
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Error bodies of streaming requests come back as text
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Chat completion through any provider, using one normalized message and tool schema.
+ * With `stream: true` it yields normalized deltas instead of a single response.
+ */
+function chat(options: ChatOptions & { stream: true }): AsyncGenerator<ChatDelta, void, unknown>;
+function chat(options: ChatOptions & { stream?: false }): Promise<ChatResponse>;
+function chat(options: ChatOptions): Promise<ChatResponse> | AsyncGenerator<ChatDelta, void, unknown> {
+  const { keyId, signal, timeoutMs, retry, ...params } = options;
+  const { endpoint, body } = buildChatRequest(params);
+  const request: TinylocketRequest = {
+    provider: params.provider,
+    endpoint,
+    method: 'POST',
+    body,
+    keyId,
+    signal,
+    timeoutMs,
+    retry,
+  };
+
+  if (params.stream) {
+    return streamChat(request);
+  }
+
+  return tinylocket.request(request).then(({ status, data }) => {
+    if (status < 200 || status >= 300) {
+      throw providerError(status, data);
+    }
+    return parseChatResponse(params.provider, data);
+  });
+}
+
+async function* streamChat(request: TinylocketRequest): AsyncGenerator<ChatDelta, void, unknown> {
+  const parseDelta = createChatDeltaParser(request.provider);
+  for await (const { event, data } of openStream(request, 'sse', (_chunk, event) => event)) {
+    if (event === 'error') {
+      throw providerError(200, data);
+    }
+    const delta = parseDelta(data);
+    if (delta) yield delta;
+  }
+}
+
 // The public API exposed on window.tinylocket
 const tinylocket = {
   /**
@@ -152,75 +408,49 @@ const tinylocket = {
    * Make an API request through the extension.
    */
   async request<T = unknown>(options: TinylocketRequest): Promise<TinylocketResponse<T>> {
-    const result = (await sendMessage(MESSAGE_TYPE.REQUEST, options)) as {
+    const { signal, ...request } = options;
+    const result = (await sendMessage(MESSAGE_TYPE.REQUEST, toRequestPayload(request), signal)) as {
       status: number;
       headers: Record<string, string>;
-      body: T;
+      body: T | EncodedBody;
+      bodyEncoding?: 'base64';
+      droppedHeaders?: string[];
     };
 
+    // Binary bodies arrive base64-encoded in slices
+    let data = result.body as T;
+    if (result.bodyEncoding === 'base64') {
+      const { chunks, contentType } = result.body as EncodedBody;
+      const blob = new Blob(chunks.map(base64ToBytes), { type: contentType });
+      data = (request.responseType === 'blob' ? blob : await blob.arrayBuffer()) as T;
+    }
+
     return {
       status: result.status,
       headers: result.headers,
-      data: result.body,
+      data,
+      droppedHeaders: result.droppedHeaders,
     };
   },
 
   /**
    * Make a streaming API request through the extension.
+   * The stream ends early when its signal is aborted or the consumer stops iterating.
    */
   async *stream(options: TinylocketRequest): AsyncGenerator<string, void, unknown> {
-    const requestId = generateRequestId();
-    const chunks: string[] = [];
-    let done = false;
-    let error: Error | null = null;
-
-    // Create a promise that resolves when streaming is complete
-    const streamPromise = new Promise<void>((resolve, reject) => {
-      pendingRequests.set(requestId, {
-        resolve: () => {
-          done = true;
-          resolve();
-        },
-        reject: (err) => {
-          error = err;
-          reject(err);
-        },
-        streamCallback: (chunk, isDone) => {
-          if (chunk) {
-            chunks.push(chunk);
-          }
-          if (isDone) {
-            done = true;
-          }
-        },
-      });
-    });
-
-    // Send the request
-    window.postMessage(
-      {
-        target: MESSAGE_TARGET.CONTENT_SCRIPT,
-        type: MESSAGE_TYPE.REQUEST,
-        requestId,
-        payload: { ...options, stream: true },
-      },
-      window.location.origin
-    );
-
-    // Yield chunks as they arrive
-    while (!done || chunks.length > 0) {
-      if (chunks.length > 0) {
-        yield chunks.shift()!;
-      } else if (!done) {
-        // Wait a bit for more chunks
-        await new Promise((r) => setTimeout(r, 10));
-      }
-    }
+    yield* openStream(options, 'text', (chunk) => chunk || undefined);
+  },
 
-    if (error) {
-      throw error;
-    }
+  /**
+   * Make a streaming API request and yield parsed events instead of raw text.
+   * Handles Server-Sent Events (ending at a `[DONE]` sentinel) and Gemini's
+   * streamed JSON arrays; data is JSON-decoded when possible.
+   */
+  async *streamEvents(options: TinylocketRequest): AsyncGenerator<StreamEvent, void, unknown> {
+    yield* openStream(options, 'sse', (_chunk, event) => event);
   },
+
+  chat,
 };
 
 // Expose on window
@@ -6,10 +6,22 @@ import HomePage from './pages/HomePage';
 import KeysPage from './pages/KeysPage';
 import DomainsPage from './pages/DomainsPage';
 import HistoryPage from './pages/HistoryPage';
+import UsagePage from './pages/UsagePage';
+import BudgetsPage from './pages/BudgetsPage';
 import SettingsPage from './pages/SettingsPage';
+import PricingPage from './pages/PricingPage';
+import ProvidersPage from './pages/ProvidersPage';
+import BackupPage from './pages/BackupPage';
 
 export default function App() {
-  const { currentPage, checkAuthState, loadDomains, loadHistory, loadSettings } = usePopupStore();
+  const {
+    currentPage,
+    checkAuthState,
+    loadDomains,
+    loadHistory,
+    loadSettings,
+    loadCustomProviders,
+  } = usePopupStore();
 
   useEffect(() => {
     // Check auth state on mount
@@ -17,7 +29,8 @@ export default function App() {
     loadDomains();
     loadHistory();
     loadSettings();
-  }, [checkAuthState, loadDomains, loadHistory, loadSettings]);
+    loadCustomProviders();
+  }, [checkAuthState, loadDomains, loadHistory, loadSettings, loadCustomProviders]);
 
   // Listen for lock events from background
   useEffect(() => {
@@ -44,8 +57,18 @@ export default function App() {
         return <DomainsPage />;
       case 'history':
         return <HistoryPage />;
+      case 'usage':
+        return <UsagePage />;
+      case 'budgets':
+        return <BudgetsPage />;
       case 'settings':
         return <SettingsPage />;
+      case 'pricing':
+        return <PricingPage />;
+      case 'providers':
+        return <ProvidersPage />;
+      case 'backup':
+        return <BackupPage />;
       default:
         return <HomePage />;
     }
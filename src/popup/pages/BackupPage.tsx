@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { usePopupStore } from '../store';
+import { getHostPermissionPattern, getKeyHostPatterns } from '../../shared/types/providers';
+import type { ImportConflictStrategy, ImportMode, VaultBackup } from '../../shared/types/storage';
+
+/**
+ * Host permissions the imported custom providers, endpoint keys and Bedrock keys need
+ * but don't have yet.
+ */
+async function getMissingHostPatterns(): Promise<string[]> {
+  const { customProviders, keys } = usePopupStore.getState();
+  const patterns = new Set([
+    ...customProviders.map((p) => getHostPermissionPattern(p.baseUrl)),
+    ...keys.flatMap((k) => {
+      try {
+        return getKeyHostPatterns(k);
+      } catch {
+        return []; // Not a URL; requests with the key fail until it's fixed
+      }
+    }),
+  ]);
+
+  const missing: string[] = [];
+  for (const pattern of patterns) {
+    if (!(await chrome.permissions.contains({ origins: [pattern] }))) missing.push(pattern);
+  }
+  return missing;
+}
+
+export default function BackupPage() {
+  const { exportBackup, importBackup, setCurrentPage } = usePopupStore();
+
+  // Export
+  const [exportPassword, setExportPassword] = useState('');
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+
+  // Import
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [conflictStrategy, setConflictStrategy] = useState<ImportConflictStrategy>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState('');
+  const [importMessage, setImportMessage] = useState('');
+  const [missingHosts, setMissingHosts] = useState<string[]>([]);
+
+  const handleExport = async () => {
+    setExportError('');
+    if (!exportPassword) {
+      setExportError('Master password is required');
+      return;
+    }
+    if (exportPassphrase && exportPassphrase.length < 8) {
+      setExportError('Export passphrase must be at least 8 characters');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const backup = await exportBackup(exportPassword, {
+        passphrase: exportPassphrase || undefined,
+        includeHistory,
+      });
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tinylocket-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setExportPassword('');
+      setExportPassphrase('');
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImportError('');
+    setImportMessage('');
+    setMissingHosts([]);
+    if (!importFile) {
+      setImportError('Choose a backup file');
+      return;
+    }
+    if (!importPassphrase) {
+      setImportError('Passphrase is required');
+      return;
+    }
+    if (
+      importMode === 'replace' &&
+      !confirm('Replace all current keys, domains and settings with this backup?')
+    ) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const backup = JSON.parse(await importFile.text()) as VaultBackup;
+      const result = await importBackup(backup, importPassphrase, importMode, conflictStrategy);
+      setImportMessage(
+        `Imported: ${result.added} added, ${result.updated} updated, ${result.skipped} skipped`
+      );
+      setImportPassphrase('');
+      // Permissions can only be asked for on a click, so offer a button for them
+      setMissingHosts(await getMissingHostPatterns());
+    } catch (err) {
+      setImportError(
+        err instanceof SyntaxError
+          ? 'Not a valid backup file'
+          : err instanceof Error
+          ? err.message
+          : 'Failed to import backup'
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleGrantHosts = async () => {
+    const granted = await chrome.permissions.request({ origins: missingHosts });
+    if (granted) {
+      setMissingHosts([]);
+    } else {
+      setImportError('Imported providers cannot be reached until access is allowed');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-[480px]">
+      {/* Header */}
+      <div className="bg-white border-b p-4 flex items-center gap-3">
+        <button
+          onClick={() => setCurrentPage('settings')}
+          className="p-1 hover:bg-gray-100 rounded"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-lg font-semibold text-gray-800">Backup</h1>
+      </div>
+
+      <div className="flex-1 p-4 space-y-6">
+        {/* Export */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-700">Export</h3>
+          <p className="text-xs text-gray-500">
+            Creates an encrypted file with your keys, allowed domains and settings.
+          </p>
+          <input
+            type="password"
+            value={exportPassword}
+            onChange={(e) => setExportPassword(e.target.value)}
+            placeholder="Master password"
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+            disabled={isExporting}
+          />
+          <input
+            type="password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder="Export passphrase (optional, defaults to master password)"
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+            disabled={isExporting}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeHistory}
+              onChange={() => setIncludeHistory(!includeHistory)}
+              className="w-4 h-4 text-blue-500 rounded"
+            />
+            Include request history
+          </label>
+          {exportError && <p className="text-red-500 text-sm">{exportError}</p>}
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Export Backup'}
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="space-y-3 pt-4 border-t">
+          <h3 className="text-sm font-medium text-gray-700">Import</h3>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+            className="w-full text-sm"
+            disabled={isImporting}
+          />
+          <input
+            type="password"
+            value={importPassphrase}
+            onChange={(e) => setImportPassphrase(e.target.value)}
+            placeholder="Backup passphrase"
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+            disabled={isImporting}
+          />
+          <select
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value as ImportMode)}
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+          >
+            <option value="merge">Merge into current vault</option>
+            <option value="replace">Replace current vault</option>
+          </select>
+          {importMode === 'merge' && (
+            <select
+              value={conflictStrategy}
+              onChange={(e) => setConflictStrategy(e.target.value as ImportConflictStrategy)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            >
+              <option value="skip">Keep existing keys on conflict</option>
+              <option value="overwrite">Overwrite existing keys on conflict</option>
+              <option value="keep_both">Keep both on conflict</option>
+            </select>
+          )}
+          {importError && <p className="text-red-500 text-sm">{importError}</p>}
+          {importMessage && <p className="text-green-600 text-sm">{importMessage}</p>}
+          {missingHosts.length > 0 && (
+            <button
+              onClick={handleGrantHosts}
+              className="w-full py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+            >
+              Allow access to {missingHosts.length} imported provider host
+              {missingHosts.length === 1 ? '' : 's'}
+            </button>
+          )}
+          <button
+            onClick={handleImport}
+            disabled={isImporting}
+            className="w-full py-2 border rounded-lg hover:bg-gray-100 disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : 'Import Backup'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
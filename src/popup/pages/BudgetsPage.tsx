@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { usePopupStore } from '../store';
+import { getAllProviders, type LlmProvider } from '../../shared/types/providers';
+import { BUDGET_PERIOD_OPTIONS } from '../../shared/constants';
+import {
+  describeBudgetScope,
+  formatBudgetAmount,
+  getBudgetWindow,
+  getCurrentUsage,
+  type BudgetMetric,
+  type BudgetPeriod,
+} from '../../shared/types/budgets';
+
+function formatReset(resetAt: number): string {
+  const minutes = Math.max(1, Math.round((resetAt - Date.now()) / 60000));
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `in ${hours} h`;
+  return `on ${new Date(resetAt).toLocaleDateString()}`;
+}
+
+export default function BudgetsPage() {
+  const {
+    budgets,
+    budgetUsage,
+    domains,
+    customProviders,
+    loadBudgets,
+    addBudget,
+    removeBudget,
+    setCurrentPage,
+  } = usePopupStore();
+  const [domain, setDomain] = useState('');
+  const [provider, setProvider] = useState<LlmProvider | ''>('');
+  const [metric, setMetric] = useState<BudgetMetric>('cost');
+  const [limit, setLimit] = useState('');
+  const [period, setPeriod] = useState<BudgetPeriod>('day');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  const handleAdd = async () => {
+    setError('');
+    const amount = Number(limit);
+    const valid = metric === 'cost' ? amount > 0 : Number.isInteger(amount) && amount > 0;
+    if (!limit.trim() || !valid) {
+      setError(metric === 'cost' ? 'Enter an amount in USD' : 'Enter a whole number of requests');
+      return;
+    }
+
+    await addBudget({
+      domain: domain || undefined,
+      provider: provider || undefined,
+      metric,
+      limit: amount,
+      period,
+    });
+    setLimit('');
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-[480px]">
+      {/* Header */}
+      <div className="bg-white border-b p-4 flex items-center gap-3">
+        <button
+          onClick={() => setCurrentPage('usage')}
+          className="p-1 hover:bg-gray-100 rounded"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-lg font-semibold text-gray-800">Budgets</h1>
+      </div>
+
+      <div className="flex-1 p-4 space-y-6">
+        {/* Add budget */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">New Budget</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Requests over a budget are rejected until it resets
+          </p>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm"
+              >
+                <option value="">All sites</option>
+                {domains.map((d) => (
+                  <option key={d.domain} value={d.domain}>
+                    {d.domain}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value as LlmProvider | '')}
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm"
+              >
+                <option value="">All providers</option>
+                {getAllProviders(customProviders).map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as BudgetMetric)}
+                className="px-3 py-2 border rounded-lg text-sm"
+              >
+                <option value="cost">USD</option>
+                <option value="requests">Requests</option>
+              </select>
+              <input
+                type="number"
+                min="0"
+                step={metric === 'cost' ? 'any' : 1}
+                value={limit}
+                onChange={(e) => setLimit(e.target.value)}
+                placeholder={metric === 'cost' ? '5.00' : '200'}
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm"
+              />
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as BudgetPeriod)}
+                className="px-3 py-2 border rounded-lg text-sm"
+              >
+                {BUDGET_PERIOD_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <button
+              onClick={handleAdd}
+              className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+            >
+              Add Budget
+            </button>
+          </div>
+        </div>
+
+        {/* Budgets */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Active Budgets</h3>
+          {budgets.length === 0 ? (
+            <p className="text-xs text-gray-500">No budgets; sites can use your keys without limits</p>
+          ) : (
+            <div className="space-y-2">
+              {budgets.map((budget) => {
+                const usage = getCurrentUsage(budget, budgetUsage[budget.id]);
+                const used = budget.metric === 'cost' ? usage.cost : usage.requests;
+                const percent = Math.min(100, (used / budget.limit) * 100);
+                const { resetAt } = getBudgetWindow(budget.period);
+                const barColor =
+                  percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+                return (
+                  <div key={budget.id} className="p-3 bg-white border rounded-lg">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-sm text-gray-700 flex-1 truncate">
+                        {describeBudgetScope(budget, customProviders)}
+                      </span>
+                      <button
+                        onClick={() => removeBudget(budget.id)}
+                        className="text-sm text-red-500 hover:text-red-600"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-xs text-gray-500 flex-1">
+                        {formatBudgetAmount(budget.metric, used)} of{' '}
+                        {formatBudgetAmount(budget.metric, budget.limit)} per {budget.period}
+                      </span>
+                      <span className="text-xs text-gray-400">resets {formatReset(resetAt)}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
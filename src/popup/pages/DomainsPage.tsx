@@ -1,10 +1,205 @@
 import { useState } from 'react';
 import { usePopupStore } from '../store';
+import {
+  PROVIDERS,
+  getAllProviders,
+  isEndpointPattern,
+  type LlmProvider,
+} from '../../shared/types/providers';
+import type { RateLimit, WhitelistedDomain } from '../../shared/types/storage';
+
+function describeRateLimit(limit: RateLimit | undefined): string {
+  if (!limit || (!limit.requestsPerMinute && !limit.maxConcurrent)) return 'No rate limit';
+  const parts = [];
+  if (limit.requestsPerMinute) parts.push(`${limit.requestsPerMinute}/min`);
+  if (limit.maxConcurrent) parts.push(`${limit.maxConcurrent} at once`);
+  return parts.join(', ');
+}
+
+/**
+ * Requests per minute, concurrency cap and what happens to excess requests.
+ * Empty or 0 disables a check.
+ */
+function RateLimitEditor({
+  value,
+  onSave,
+  allowNone = true,
+}: {
+  value: RateLimit | undefined;
+  onSave: (limit: RateLimit | undefined) => Promise<void>;
+  allowNone?: boolean;
+}) {
+  const [perMinute, setPerMinute] = useState(
+    value?.requestsPerMinute ? String(value.requestsPerMinute) : ''
+  );
+  const [concurrent, setConcurrent] = useState(
+    value?.maxConcurrent ? String(value.maxConcurrent) : ''
+  );
+  const [whenLimited, setWhenLimited] = useState<RateLimit['whenLimited']>(
+    value?.whenLimited ?? 'queue'
+  );
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    const requestsPerMinute = Number(perMinute || 0);
+    const maxConcurrent = Number(concurrent || 0);
+    if (![requestsPerMinute, maxConcurrent].every((n) => Number.isInteger(n) && n >= 0)) {
+      setError('Limits must be whole numbers');
+      return;
+    }
+    setError('');
+    await onSave({ requestsPerMinute, maxConcurrent, whenLimited });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min="0"
+          value={perMinute}
+          onChange={(e) => setPerMinute(e.target.value)}
+          placeholder="∞"
+          className="w-16 px-2 py-1 border rounded text-xs"
+        />
+        <span className="text-xs text-gray-600">per min</span>
+        <input
+          type="number"
+          min="0"
+          value={concurrent}
+          onChange={(e) => setConcurrent(e.target.value)}
+          placeholder="∞"
+          className="w-16 px-2 py-1 border rounded text-xs"
+        />
+        <span className="text-xs text-gray-600">at once</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          value={whenLimited}
+          onChange={(e) => setWhenLimited(e.target.value as RateLimit['whenLimited'])}
+          className="flex-1 px-2 py-1 border rounded text-xs"
+        >
+          <option value="queue">Queue excess requests</option>
+          <option value="reject">Reject excess requests</option>
+        </select>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-xs"
+        >
+          Save
+        </button>
+        {allowNone && value && (
+          <button
+            onClick={() => onSave(undefined)}
+            className="px-3 py-1 text-red-500 hover:bg-red-50 rounded text-xs"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Endpoints a domain may call beyond each provider's built-in allowlist.
+ */
+function EndpointsEditor({ entry }: { entry: WhitelistedDomain }) {
+  const { customProviders, setDomainAllowedEndpoints } = usePopupStore();
+  const [provider, setProvider] = useState<LlmProvider>(PROVIDERS[0].id);
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState('');
+
+  const patterns = entry.allowedEndpoints?.[provider] ?? [];
+
+  const handleAdd = async () => {
+    const [, method = '', path = ''] = pattern.trim().match(/^(\S+)\s+(.*)$/) ?? [];
+    const normalized = `${method.toUpperCase()} ${path}`;
+    if (!isEndpointPattern(normalized)) {
+      setError('Use the form METHOD /path, e.g. POST /v1/files');
+      return;
+    }
+    setError('');
+    if (!patterns.includes(normalized)) {
+      await setDomainAllowedEndpoints(entry.domain, provider, [...patterns, normalized]);
+    }
+    setPattern('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={provider}
+        onChange={(e) => setProvider(e.target.value as LlmProvider)}
+        className="w-full px-2 py-1 border rounded text-xs"
+      >
+        {getAllProviders(customProviders).map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      {patterns.map((p) => (
+        <div key={p} className="flex items-center gap-2">
+          <span className="flex-1 font-mono text-xs text-gray-700 truncate">{p}</span>
+          <button
+            onClick={() =>
+              setDomainAllowedEndpoints(
+                entry.domain,
+                provider,
+                patterns.filter((other) => other !== p)
+              )
+            }
+            className="text-xs text-red-500 hover:text-red-600"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="POST /v1/files"
+          className="flex-1 min-w-0 px-2 py-1 border rounded text-xs font-mono"
+        />
+        <button
+          onClick={handleAdd}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-xs"
+        >
+          Allow
+        </button>
+      </div>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+    </div>
+  );
+}
 
 export default function DomainsPage() {
-  const { domains, addDomain, removeDomain, setCurrentPage } = usePopupStore();
+  const {
+    domains,
+    keys,
+    settings,
+    customProviders,
+    addDomain,
+    removeDomain,
+    setDomainKeyAssignment,
+    setDomainRateLimit,
+    updateSettings,
+    setCurrentPage,
+  } = usePopupStore();
   const [newDomain, setNewDomain] = useState('');
   const [error, setError] = useState('');
+  const [expandedDomain, setExpandedDomain] = useState<string | null>(null);
+  const [limitProvider, setLimitProvider] = useState<LlmProvider>(PROVIDERS[0].id);
+
+  // Only providers with a choice of keys can be pinned
+  const providersWithChoice = getAllProviders(customProviders).filter(
+    (p) => keys.filter((k) => k.provider === p.id).length > 1
+  );
 
   const handleAdd = async () => {
     if (!newDomain) {
@@ -32,6 +227,16 @@ export default function DomainsPage() {
     await removeDomain(domain);
   };
 
+  const handleProviderLimit = async (limit: RateLimit | undefined) => {
+    const providerRateLimits = { ...settings?.providerRateLimits };
+    if (limit) {
+      providerRateLimits[limitProvider] = limit;
+    } else {
+      delete providerRateLimits[limitProvider];
+    }
+    await updateSettings({ providerRateLimits });
+  };
+
   return (
     <div className="flex flex-col h-full min-h-[480px]">
       {/* Header */}
@@ -84,30 +289,123 @@ export default function DomainsPage() {
         ) : (
           <div className="divide-y">
             {domains.map((d) => (
-              <div key={d.domain} className="p-4 flex items-center gap-3">
-                <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center">
-                  <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="font-medium text-gray-800 truncate">{d.domain}</div>
-                  <div className="text-xs text-gray-500">
-                    Added {new Date(d.addedAt).toLocaleDateString()}
+              <div key={d.domain} className="p-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center">
+                    <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-800 truncate">{d.domain}</div>
+                    <div className="text-xs text-gray-500">
+                      Added {new Date(d.addedAt).toLocaleDateString()} •{' '}
+                      {describeRateLimit(d.rateLimit)}
+                    </div>
                   </div>
+                  <button
+                    onClick={() => setExpandedDomain(expandedDomain === d.domain ? null : d.domain)}
+                    className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg"
+                    title="Keys and rate limit"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handleRemove(d.domain)}
+                    className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
                 </div>
-                <button
-                  onClick={() => handleRemove(d.domain)}
-                  className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
+
+                {/* Rate limit, per-provider key assignment and extra endpoints */}
+                {expandedDomain === d.domain && (
+                  <div className="mt-3 ml-11 space-y-2">
+                    <div className="text-xs font-medium text-gray-700">Rate limit</div>
+                    <RateLimitEditor
+                      value={d.rateLimit}
+                      onSave={(limit) => setDomainRateLimit(d.domain, limit)}
+                    />
+                    {providersWithChoice.length > 0 && (
+                      <div className="text-xs font-medium text-gray-700 pt-2">Keys</div>
+                    )}
+                    {providersWithChoice.map((p) => (
+                      <div key={p.id} className="flex items-center gap-2">
+                        <span className="w-24 text-xs text-gray-600 truncate">{p.name}</span>
+                        <select
+                          value={d.keyAssignments?.[p.id] ?? ''}
+                          onChange={(e) =>
+                            setDomainKeyAssignment(d.domain, p.id, e.target.value || undefined)
+                          }
+                          className="flex-1 px-2 py-1 border rounded text-xs"
+                        >
+                          <option value="">Use strategy (default key)</option>
+                          {keys
+                            .filter((k) => k.provider === p.id)
+                            .map((k) => (
+                              <option key={k.id} value={k.id}>
+                                {k.name}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                    ))}
+                    <div className="text-xs font-medium text-gray-700 pt-2">Extra endpoints</div>
+                    <p className="text-xs text-gray-500">
+                      Inference endpoints are always allowed; add others this site may call
+                    </p>
+                    <EndpointsEditor entry={d} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
+
+        {/* Rate limit defaults */}
+        {settings && (
+          <div className="p-4 border-t space-y-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Rate Limit for New Sites</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                Applied when a domain is added; currently {describeRateLimit(settings.defaultRateLimit)}
+              </p>
+              <RateLimitEditor
+                value={settings.defaultRateLimit}
+                onSave={async (limit) => {
+                  if (limit) await updateSettings({ defaultRateLimit: limit });
+                }}
+                allowNone={false}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Rate Limit per Provider</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                Shared by all sites. {describeRateLimit(settings.providerRateLimits[limitProvider])}
+              </p>
+              <select
+                value={limitProvider}
+                onChange={(e) => setLimitProvider(e.target.value as LlmProvider)}
+                className="w-full mb-2 px-2 py-1 border rounded text-xs"
+              >
+                {getAllProviders(customProviders).map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <RateLimitEditor
+                key={limitProvider}
+                value={settings.providerRateLimits[limitProvider]}
+                onSave={handleProviderLimit}
+              />
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
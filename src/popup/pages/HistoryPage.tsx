@@ -1,8 +1,13 @@
 import { usePopupStore } from '../store';
-import { PROVIDERS } from '../../shared/types/providers';
+import { getProviderById } from '../../shared/types/providers';
+import { formatCost } from '../../shared/types/pricing';
+
+function formatTokens(count: number | undefined): string {
+  return (count ?? 0).toLocaleString();
+}
 
 export default function HistoryPage() {
-  const { history, clearHistory, setCurrentPage } = usePopupStore();
+  const { history, customProviders, clearHistory, setCurrentPage } = usePopupStore();
 
   const handleClear = async () => {
     if (confirm('Are you sure you want to clear all request history?')) {
@@ -46,7 +51,7 @@ export default function HistoryPage() {
         ) : (
           <div className="divide-y">
             {history.map((entry) => {
-              const provider = PROVIDERS.find((p) => p.id === entry.provider);
+              const provider = getProviderById(entry.provider, customProviders);
               const isSuccess = entry.status >= 200 && entry.status < 300;
 
               return (
@@ -61,16 +66,37 @@ export default function HistoryPage() {
                           : 'bg-red-100 text-red-700'
                       }`}
                     >
-                      {entry.status || 'ERR'}
+                      {entry.status ||
+                        (entry.errorCode === 'CANCELLED'
+                          ? 'Cancelled'
+                          : entry.errorCode === 'TIMEOUT'
+                          ? 'Timeout'
+                          : 'ERR')}
                     </span>
                     <span className="text-sm font-medium text-gray-700">
                       {provider?.name || entry.provider}
                     </span>
+                    {entry.attempt && entry.attempt > 1 && (
+                      <span className="text-xs text-gray-400">attempt {entry.attempt}</span>
+                    )}
                     <span className="text-xs text-gray-400 ml-auto">
                       {entry.durationMs}ms
                     </span>
                   </div>
                   <div className="text-xs text-gray-500 truncate">{entry.endpoint}</div>
+                  {(entry.model || entry.tokensUsed !== undefined) && (
+                    <div className="text-xs text-gray-500 truncate">
+                      {entry.model}
+                      {entry.model && entry.tokensUsed !== undefined && ' • '}
+                      {entry.tokensUsed !== undefined && (
+                        <>
+                          {formatTokens(entry.inputTokens)} in / {formatTokens(entry.outputTokens)} out
+                          {!!entry.cachedTokens && ` (${formatTokens(entry.cachedTokens)} cached)`}
+                          {entry.estimatedCost !== undefined && ` • ${formatCost(entry.estimatedCost)}`}
+                        </>
+                      )}
+                    </div>
+                  )}
                   <div className="flex items-center gap-2 mt-1">
                     <span className="text-xs text-gray-400">{entry.domain}</span>
                     <span className="text-xs text-gray-300">•</span>
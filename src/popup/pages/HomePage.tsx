@@ -1,9 +1,9 @@
 import { usePopupStore } from '../store';
 import { PRODUCT_NAME } from '../../shared/constants';
-import { PROVIDERS } from '../../shared/types/providers';
+import { getAllProviders } from '../../shared/types/providers';
 
 export default function HomePage() {
-  const { keys, lock, setCurrentPage } = usePopupStore();
+  const { keys, customProviders, lock, setCurrentPage } = usePopupStore();
 
   const configuredProviders = keys.map((k) => k.provider);
 
@@ -33,7 +33,7 @@ export default function HomePage() {
             <div className="text-xs text-gray-500">API Keys</div>
           </div>
           <div className="text-center p-3 bg-gray-50 rounded-lg">
-            <div className="text-2xl font-bold text-green-500">{PROVIDERS.length}</div>
+            <div className="text-2xl font-bold text-green-500">{getAllProviders(customProviders).length}</div>
             <div className="text-xs text-gray-500">Providers</div>
           </div>
         </div>
@@ -95,6 +95,24 @@ export default function HomePage() {
           </svg>
         </button>
 
+        <button
+          onClick={() => setCurrentPage('usage')}
+          className="w-full flex items-center gap-3 p-3 bg-white rounded-lg border hover:bg-gray-50 transition-colors"
+        >
+          <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
+            <svg className="w-5 h-5 text-yellow-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <div className="flex-1 text-left">
+            <div className="font-medium text-gray-800">Usage &amp; Costs</div>
+            <div className="text-xs text-gray-500">Spend totals and budgets</div>
+          </div>
+          <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+
         <button
           onClick={() => setCurrentPage('settings')}
           className="w-full flex items-center gap-3 p-3 bg-white rounded-lg border hover:bg-gray-50 transition-colors"
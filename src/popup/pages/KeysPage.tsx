@@ -1,46 +1,203 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { usePopupStore } from '../store';
-import { PROVIDERS, type LlmProvider } from '../../shared/types/providers';
+import {
+  getAllProviders,
+  getBedrockHostPatterns,
+  getHostPermissionPattern,
+  getKeyHostPatterns,
+  type LlmProvider,
+} from '../../shared/types/providers';
+import { AWS_DEFAULT_REGION, AZURE_DEFAULT_API_VERSION } from '../../shared/constants';
+import type { ApiKeySummary, KeyHealthStatus } from '../../shared/types/storage';
+
+const HEALTH_BADGES: Record<KeyHealthStatus, { label: string; className: string }> = {
+  valid: { label: 'Valid', className: 'bg-green-100 text-green-700' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-700' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-700' },
+  rate_limited: { label: 'Rate limited', className: 'bg-amber-100 text-amber-700' },
+  unreachable: { label: 'Unreachable', className: 'bg-gray-100 text-gray-600' },
+};
+
+/**
+ * Parse "model=deployment" lines into a deployment map.
+ */
+function parseDeployments(text: string): Record<string, string> | undefined {
+  const deployments: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const [model, deployment, ...rest] = line.split('=').map((part) => part.trim());
+    if (!model || !deployment || rest.length > 0) return undefined;
+    deployments[model] = deployment;
+  }
+  return deployments;
+}
+
+/**
+ * Keys whose endpoint or Bedrock hosts the extension has no access to, such as keys saved
+ * before access was asked for. Requests with them fail until it is granted.
+ */
+async function getKeysMissingHostAccess(keys: ApiKeySummary[]): Promise<ApiKeySummary[]> {
+  const missing: ApiKeySummary[] = [];
+  for (const key of keys) {
+    let origins: string[];
+    try {
+      origins = getKeyHostPatterns(key);
+    } catch {
+      continue; // Not a URL; there is no host to grant
+    }
+    if (origins.length > 0 && !(await chrome.permissions.contains({ origins }))) {
+      missing.push(key);
+    }
+  }
+  return missing;
+}
 
 export default function KeysPage() {
-  const { keys, addKey, deleteKey, setCurrentPage } = usePopupStore();
+  const { keys, customProviders, addKey, deleteKey, setDefaultKey, testKey, setCurrentPage } =
+    usePopupStore();
   const [isAdding, setIsAdding] = useState(false);
   const [newProvider, setNewProvider] = useState<LlmProvider>('openai');
   const [newName, setNewName] = useState('');
   const [newApiKey, setNewApiKey] = useState('');
   const [newEndpointUrl, setNewEndpointUrl] = useState('');
+  const [newDeployments, setNewDeployments] = useState('');
+  const [newApiVersion, setNewApiVersion] = useState(AZURE_DEFAULT_API_VERSION);
+  const [newAccessKeyId, setNewAccessKeyId] = useState('');
+  const [newRegion, setNewRegion] = useState(AWS_DEFAULT_REGION);
+  const [newSessionToken, setNewSessionToken] = useState('');
   const [error, setError] = useState('');
+  const [testingIds, setTestingIds] = useState<Set<string>>(new Set());
+  const [testMessages, setTestMessages] = useState<Record<string, string>>({});
+  const [missingAccess, setMissingAccess] = useState<ApiKeySummary[]>([]);
+
+  useEffect(() => {
+    getKeysMissingHostAccess(keys).then(setMissingAccess);
+  }, [keys]);
 
-  const selectedProvider = PROVIDERS.find((p) => p.id === newProvider);
+  const providers = getAllProviders(customProviders);
+  const selectedProvider = providers.find((p) => p.id === newProvider);
+  const isAzure = selectedProvider?.type === 'azure_openai';
+  const isBedrock = selectedProvider?.type === 'bedrock';
+  const apiKeyOptional = selectedProvider?.requiresEndpointUrl && !isAzure; // Local servers
 
   const handleAdd = async () => {
-    if (!newApiKey && !selectedProvider?.requiresEndpointUrl) {
-      setError('API key is required');
+    if (!newApiKey && !apiKeyOptional) {
+      setError(isBedrock ? 'Secret access key is required' : 'API key is required');
       return;
     }
     if (selectedProvider?.requiresEndpointUrl && !newEndpointUrl) {
       setError('Endpoint URL is required');
       return;
     }
+    if (isAzure && !newEndpointUrl.startsWith('https://')) {
+      setError('Resource endpoint must start with https://');
+      return;
+    }
+    const deployments = parseDeployments(newDeployments);
+    if (isAzure && !deployments) {
+      setError('Write one deployment per line as model=deployment');
+      return;
+    }
+    const accessKeyId = newAccessKeyId.trim();
+    const region = newRegion.trim();
+    if (isBedrock && !/^[A-Z0-9]{16,128}$/.test(accessKeyId)) {
+      setError('Access key ID should look like AKIA...');
+      return;
+    }
+    if (isBedrock && !/^[a-z]{2}(-[a-z]+)+-\d+$/.test(region)) {
+      setError('Region should look like us-east-1');
+      return;
+    }
+
+    // Keys are only sent to hosts the extension has been granted
+    let origins: string[] = [];
+    if (isBedrock) {
+      origins = getBedrockHostPatterns(region);
+    } else if (selectedProvider?.requiresEndpointUrl) {
+      try {
+        origins = [getHostPermissionPattern(newEndpointUrl)];
+      } catch {
+        setError('Endpoint URL is not a valid URL');
+        return;
+      }
+    }
+    if (origins.length > 0) {
+      // Asked before any other await, while the click still counts as a user gesture
+      // Rejects for hosts outside the manifest's optional host permissions
+      const granted = await chrome.permissions.request({ origins }).catch(() => false);
+      if (!granted) {
+        setError(
+          isBedrock
+            ? `Permission to reach Bedrock in ${region} is required`
+            : `Permission to reach ${origins[0]} is required`
+        );
+        return;
+      }
+    }
 
     try {
-      await addKey(
+      const id = await addKey(
         newProvider,
         newName || selectedProvider?.name || newProvider,
         newApiKey,
-        newEndpointUrl || undefined
+        {
+          endpointUrl: newEndpointUrl || undefined,
+          azure:
+            isAzure && deployments
+              ? { deployments, apiVersion: newApiVersion.trim() || AZURE_DEFAULT_API_VERSION }
+              : undefined,
+          aws: isBedrock ? { accessKeyId, region } : undefined,
+          sessionToken: (isBedrock && newSessionToken.trim()) || undefined,
+        }
       );
       setIsAdding(false);
       setNewProvider('openai');
       setNewName('');
       setNewApiKey('');
       setNewEndpointUrl('');
+      setNewDeployments('');
+      setNewApiVersion(AZURE_DEFAULT_API_VERSION);
+      setNewAccessKeyId('');
+      setNewRegion(AWS_DEFAULT_REGION);
+      setNewSessionToken('');
       setError('');
+      handleTest(id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add key');
     }
   };
 
+  const handleTest = async (id: string) => {
+    setTestingIds((prev) => new Set(prev).add(id));
+    let message = '';
+    try {
+      const result = await testKey(id);
+      if (result.status !== 'valid') {
+        message = result.message || (result.httpStatus ? `HTTP ${result.httpStatus}` : '');
+      }
+    } catch (err) {
+      message = err instanceof Error ? err.message : 'Connection test failed';
+    } finally {
+      setTestingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+      setTestMessages((prev) => ({ ...prev, [id]: message }));
+    }
+  };
+
+  const handleGrantAccess = async (key: ApiKeySummary) => {
+    const origins = getKeyHostPatterns(key);
+    // Rejects for hosts outside the manifest's optional host permissions
+    const granted = await chrome.permissions.request({ origins }).catch(() => false);
+    setTestMessages((prev) => ({
+      ...prev,
+      [key.id]: granted ? '' : `Permission to reach ${origins[0]} is required`,
+    }));
+    setMissingAccess(await getKeysMissingHostAccess(keys));
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this API key?')) {
       await deleteKey(id);
@@ -78,12 +235,18 @@ export default function KeysPage() {
             onChange={(e) => setNewProvider(e.target.value as LlmProvider)}
             className="w-full px-3 py-2 border rounded-lg"
           >
-            {PROVIDERS.map((p) => (
+            {providers.map((p) => (
               <option key={p.id} value={p.id}>
                 {p.name}
               </option>
             ))}
           </select>
+          <button
+            onClick={() => setCurrentPage('providers')}
+            className="text-xs text-blue-500 hover:text-blue-600"
+          >
+            Provider not listed? Add a custom provider
+          </button>
 
           <input
             type="text"
@@ -98,19 +261,73 @@ export default function KeysPage() {
               type="url"
               value={newEndpointUrl}
               onChange={(e) => setNewEndpointUrl(e.target.value)}
-              placeholder="Endpoint URL (e.g., http://localhost:1234)"
+              placeholder={
+                isAzure
+                  ? 'Resource endpoint (e.g., https://my-resource.openai.azure.com)'
+                  : 'Endpoint URL (e.g., http://localhost:1234)'
+              }
               className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
             />
           )}
 
+          {isAzure && (
+            <>
+              <textarea
+                value={newDeployments}
+                onChange={(e) => setNewDeployments(e.target.value)}
+                placeholder={'Deployments, one per line (optional)\ngpt-4o=my-gpt-4o-deployment'}
+                rows={2}
+                className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
+              />
+              <input
+                type="text"
+                value={newApiVersion}
+                onChange={(e) => setNewApiVersion(e.target.value)}
+                placeholder="API version"
+                className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
+              />
+            </>
+          )}
+
+          {isBedrock && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newAccessKeyId}
+                onChange={(e) => setNewAccessKeyId(e.target.value)}
+                placeholder="Access key ID"
+                className="w-full min-w-0 px-3 py-2 border rounded-lg font-mono text-sm"
+              />
+              <input
+                type="text"
+                value={newRegion}
+                onChange={(e) => setNewRegion(e.target.value)}
+                placeholder="Region"
+                className="w-32 px-3 py-2 border rounded-lg font-mono text-sm"
+              />
+            </div>
+          )}
+
           <input
             type="password"
             value={newApiKey}
             onChange={(e) => setNewApiKey(e.target.value)}
-            placeholder={selectedProvider?.requiresEndpointUrl ? 'API Key (optional)' : 'API Key'}
+            placeholder={
+              isBedrock ? 'Secret access key' : apiKeyOptional ? 'API Key (optional)' : 'API Key'
+            }
             className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
           />
 
+          {isBedrock && (
+            <input
+              type="password"
+              value={newSessionToken}
+              onChange={(e) => setNewSessionToken(e.target.value)}
+              placeholder="Session token (temporary credentials only)"
+              className="w-full px-3 py-2 border rounded-lg font-mono text-sm"
+            />
+          )}
+
           {error && <p className="text-red-500 text-sm">{error}</p>}
 
           <div className="flex gap-2">
@@ -135,6 +352,12 @@ export default function KeysPage() {
 
       {/* Keys List */}
       <div className="flex-1 overflow-y-auto">
+        {missingAccess.length > 0 && (
+          <div className="m-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            TinyLocket can't reach the hosts of these keys until you grant access:{' '}
+            {missingAccess.map((k) => k.name).join(', ')}
+          </div>
+        )}
         {keys.length === 0 ? (
           <div className="p-8 text-center text-gray-500">
             <svg className="w-12 h-12 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -146,19 +369,90 @@ export default function KeysPage() {
         ) : (
           <div className="divide-y">
             {keys.map((key) => {
-              const provider = PROVIDERS.find((p) => p.id === key.provider);
+              const provider = providers.find((p) => p.id === key.provider);
+              const hasSiblings = keys.some((k) => k.provider === key.provider && k.id !== key.id);
+              const health = key.lastStatus ? HEALTH_BADGES[key.lastStatus] : undefined;
+              const isTesting = testingIds.has(key.id);
+              const needsAccess = missingAccess.some((k) => k.id === key.id);
               return (
                 <div key={key.id} className="p-4 flex items-center gap-3">
                   <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center text-lg">
                     {provider?.name.charAt(0) || '?'}
                   </div>
                   <div className="flex-1 min-w-0">
-                    <div className="font-medium text-gray-800 truncate">{key.name}</div>
-                    <div className="text-xs text-gray-500">{provider?.name || key.provider}</div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-800 truncate">{key.name}</span>
+                      {key.isDefault && hasSiblings && (
+                        <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+                          Default
+                        </span>
+                      )}
+                      {isTesting ? (
+                        <span className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-500 rounded">
+                          Testing...
+                        </span>
+                      ) : (
+                        health && (
+                          <span
+                            className={`px-1.5 py-0.5 text-xs rounded ${health.className}`}
+                            title={
+                              key.lastValidatedAt
+                                ? `Checked ${new Date(key.lastValidatedAt).toLocaleString()}`
+                                : undefined
+                            }
+                          >
+                            {health.label}
+                          </span>
+                        )
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {provider?.name || key.provider}
+                      {key.keyHint && <span className="font-mono"> ••••{key.keyHint}</span>}
+                    </div>
                     {key.endpointUrl && (
                       <div className="text-xs text-gray-400 truncate">{key.endpointUrl}</div>
                     )}
+                    {key.aws && (
+                      <div className="text-xs text-gray-400 truncate font-mono">
+                        {key.aws.accessKeyId} · {key.aws.region}
+                      </div>
+                    )}
+                    {testMessages[key.id] && (
+                      <div className="text-xs text-red-500 truncate" title={testMessages[key.id]}>
+                        {testMessages[key.id]}
+                      </div>
+                    )}
                   </div>
+                  {needsAccess && (
+                    <button
+                      onClick={() => handleGrantAccess(key)}
+                      className="px-2 py-1 text-xs bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200"
+                    >
+                      Grant access
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleTest(key.id)}
+                    disabled={isTesting}
+                    className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+                    title="Test connection"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                  </button>
+                  {!key.isDefault && (
+                    <button
+                      onClick={() => setDefaultKey(key.id)}
+                      className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg"
+                      title="Make default"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+                      </svg>
+                    </button>
+                  )}
                   <button
                     onClick={() => handleDelete(key.id)}
                     className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { usePopupStore } from '../store';
+import {
+  PROVIDERS,
+  getAllProviders,
+  getProviderById,
+  type LlmProvider,
+} from '../../shared/types/providers';
+import { findModelPrice, type ModelPrice } from '../../shared/types/pricing';
+
+function formatRates(price: ModelPrice): string {
+  const cached = price.cached !== undefined ? ` / $${price.cached} cached` : '';
+  return `$${price.input} in / $${price.output} out${cached}`;
+}
+
+function parseRate(value: string): number | undefined {
+  const rate = Number(value);
+  return value.trim() !== '' && Number.isFinite(rate) && rate >= 0 ? rate : undefined;
+}
+
+export default function PricingPage() {
+  const { settings, customProviders, updateSettings, setCurrentPage } = usePopupStore();
+  const [provider, setProvider] = useState<LlmProvider>(PROVIDERS[0].id);
+  const [model, setModel] = useState('');
+  const [input, setInput] = useState('');
+  const [output, setOutput] = useState('');
+  const [cached, setCached] = useState('');
+  const [error, setError] = useState('');
+
+  const overrides = settings?.priceOverrides ?? [];
+  const listPrice = model.trim() ? findModelPrice(provider, model.trim()) : undefined;
+
+  const handleAdd = async () => {
+    setError('');
+    const inputRate = parseRate(input);
+    const outputRate = parseRate(output);
+    const cachedRate = cached.trim() ? parseRate(cached) : undefined;
+    if (!model.trim()) {
+      setError('Model is required');
+      return;
+    }
+    const invalidCached = !!cached.trim() && cachedRate === undefined;
+    if (inputRate === undefined || outputRate === undefined || invalidCached) {
+      setError('Prices must be non-negative numbers');
+      return;
+    }
+
+    const override = {
+      provider,
+      model: model.trim(),
+      input: inputRate,
+      output: outputRate,
+      cached: cachedRate,
+    };
+    await updateSettings({
+      priceOverrides: [
+        ...overrides.filter((o) => o.provider !== provider || o.model !== override.model),
+        override,
+      ],
+    });
+    setModel('');
+    setInput('');
+    setOutput('');
+    setCached('');
+  };
+
+  const handleRemove = async (index: number) => {
+    await updateSettings({ priceOverrides: overrides.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-[480px]">
+      {/* Header */}
+      <div className="bg-white border-b p-4 flex items-center gap-3">
+        <button
+          onClick={() => setCurrentPage('settings')}
+          className="p-1 hover:bg-gray-100 rounded"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-lg font-semibold text-gray-800">Model Prices</h1>
+      </div>
+
+      <div className="flex-1 p-4 space-y-6">
+        {/* Add override */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Custom Price</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            USD per million tokens. Applies to new requests; a model name also matches its dated versions.
+          </p>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value as LlmProvider)}
+                className="px-3 py-2 border rounded-lg text-sm"
+              >
+                {getAllProviders(customProviders).map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="Model (e.g. gpt-4o)"
+                className="flex-1 min-w-0 px-3 py-2 border rounded-lg text-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Input"
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={output}
+                onChange={(e) => setOutput(e.target.value)}
+                placeholder="Output"
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={cached}
+                onChange={(e) => setCached(e.target.value)}
+                placeholder="Cached"
+                className="w-full px-3 py-2 border rounded-lg text-sm"
+              />
+            </div>
+            {model.trim() && (
+              <p className="text-xs text-gray-500">
+                List price: {listPrice ? formatRates(listPrice) : 'unknown'}
+              </p>
+            )}
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <button
+              onClick={handleAdd}
+              className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+            >
+              Save Price
+            </button>
+          </div>
+        </div>
+
+        {/* Overrides */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Your Prices</h3>
+          {overrides.length === 0 ? (
+            <p className="text-xs text-gray-500">Using list prices for all models</p>
+          ) : (
+            <div className="bg-white border rounded-lg divide-y">
+              {overrides.map((override, index) => (
+                <div
+                  key={`${override.provider}:${override.model}`}
+                  className="flex items-center gap-2 px-3 py-2"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-700 truncate">
+                      {getProviderById(override.provider, customProviders)?.name ||
+                        override.provider}{' '}
+                      • {override.model}
+                    </div>
+                    <div className="text-xs text-gray-500">{formatRates(override)}</div>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(index)}
+                    className="text-sm text-red-500 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
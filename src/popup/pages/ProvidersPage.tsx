@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { usePopupStore } from '../store';
+import {
+  CUSTOM_PROVIDER_PREFIX,
+  PROVIDERS,
+  getHostPermissionPattern,
+  type CustomProvider,
+  type CustomProviderId,
+} from '../../shared/types/providers';
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+
+/**
+ * Parse a base URL: https anywhere, plain http only on this machine, and no
+ * credentials, query or fragment.
+ */
+function parseBaseUrl(value: string): URL | undefined {
+  try {
+    const url = new URL(value.trim());
+    const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    const secure = url.protocol === 'https:' || (url.protocol === 'http:' && isLocal);
+    if (!secure || url.username || url.password || url.search || url.hash) return undefined;
+    return url;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse "Name: value" lines into lowercase header names and values.
+ */
+function parseHeaders(text: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const separator = line.indexOf(':');
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (separator < 0 || !HEADER_NAME.test(name)) return undefined;
+    headers[name] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+export default function ProvidersPage() {
+  const { keys, customProviders, addCustomProvider, removeCustomProvider, setCurrentPage } =
+    usePopupStore();
+  const [slug, setSlug] = useState('');
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [authHeader, setAuthHeader] = useState('Authorization');
+  const [authPrefix, setAuthPrefix] = useState('Bearer ');
+  const [headers, setHeaders] = useState('');
+  const [testEndpoint, setTestEndpoint] = useState('/v1/models');
+  const [error, setError] = useState('');
+
+  const handleAdd = async () => {
+    setError('');
+    const idSuffix = slug.trim().toLowerCase();
+    const id: CustomProviderId = `${CUSTOM_PROVIDER_PREFIX}${idSuffix}`;
+    const url = parseBaseUrl(baseUrl);
+    const staticHeaders = parseHeaders(headers);
+
+    if (!/^[a-z0-9][a-z0-9_-]{0,31}$/.test(idSuffix)) {
+      setError('Id must be letters, digits, - or _ (e.g. openrouter)');
+      return;
+    }
+    if (customProviders.some((p) => p.id === id) || PROVIDERS.some((p) => p.id === id)) {
+      setError('A provider with this id already exists');
+      return;
+    }
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!url) {
+      setError('Base URL must be https (or http on localhost), without a query string');
+      return;
+    }
+    if (!HEADER_NAME.test(authHeader.trim())) {
+      setError('Invalid auth header name');
+      return;
+    }
+    if (!staticHeaders) {
+      setError('Write one header per line as Name: value');
+      return;
+    }
+    if (!testEndpoint.trim().startsWith('/')) {
+      setError('Test endpoint must start with /');
+      return;
+    }
+
+    const provider: Omit<CustomProvider, 'createdAt'> = {
+      id,
+      name: name.trim(),
+      baseUrl: `${url.origin}${url.pathname.replace(/\/+$/, '')}`,
+      authHeader: authHeader.trim(),
+      authPrefix,
+      headers: staticHeaders,
+      testEndpoint: testEndpoint.trim(),
+    };
+
+    // Asked before any other await, while the click still counts as a user gesture
+    const granted = await chrome.permissions.request({
+      origins: [getHostPermissionPattern(provider.baseUrl)],
+    });
+    if (!granted) {
+      setError(`Permission to reach ${url.host} is required`);
+      return;
+    }
+
+    await addCustomProvider(provider);
+    setSlug('');
+    setName('');
+    setBaseUrl('');
+    setAuthHeader('Authorization');
+    setAuthPrefix('Bearer ');
+    setHeaders('');
+    setTestEndpoint('/v1/models');
+  };
+
+  const handleRemove = async (provider: CustomProvider) => {
+    if (keys.some((k) => k.provider === provider.id)) {
+      setError(`Delete the keys for ${provider.name} first`);
+      return;
+    }
+    if (!confirm(`Remove ${provider.name}?`)) return;
+
+    await removeCustomProvider(provider.id);
+
+    // Give up host access unless another custom provider still needs it
+    const pattern = getHostPermissionPattern(provider.baseUrl);
+    const stillUsed = customProviders.some(
+      (p) => p.id !== provider.id && getHostPermissionPattern(p.baseUrl) === pattern
+    );
+    if (!stillUsed) {
+      // Fails for hosts the extension requires anyway (built-in providers)
+      await chrome.permissions.remove({ origins: [pattern] }).catch(() => {});
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-[480px]">
+      {/* Header */}
+      <div className="bg-white border-b p-4 flex items-center gap-3">
+        <button
+          onClick={() => setCurrentPage('settings')}
+          className="p-1 hover:bg-gray-100 rounded"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-lg font-semibold text-gray-800">Custom Providers</h1>
+      </div>
+
+      <div className="flex-1 p-4 space-y-6">
+        {/* Add provider */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">New Provider</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Any OpenAI-compatible API. Pages call it as provider{' '}
+            <span className="font-mono">custom:&lt;id&gt;</span>.
+          </p>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={slug}
+                onChange={(e) => setSlug(e.target.value)}
+                placeholder="Id (e.g. openrouter)"
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm font-mono"
+              />
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (e.g. OpenRouter)"
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm"
+              />
+            </div>
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder="Base URL (e.g. https://openrouter.ai/api)"
+              className="w-full px-3 py-2 border rounded-lg text-sm font-mono"
+            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={authHeader}
+                onChange={(e) => setAuthHeader(e.target.value)}
+                placeholder="Auth header"
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm font-mono"
+              />
+              <input
+                type="text"
+                value={authPrefix}
+                onChange={(e) => setAuthPrefix(e.target.value)}
+                placeholder="Auth prefix"
+                className="w-full min-w-0 px-3 py-2 border rounded-lg text-sm font-mono"
+              />
+            </div>
+            <textarea
+              value={headers}
+              onChange={(e) => setHeaders(e.target.value)}
+              placeholder={'Extra headers, one per line\nX-Title: My app'}
+              rows={2}
+              className="w-full px-3 py-2 border rounded-lg text-sm font-mono"
+            />
+            <input
+              type="text"
+              value={testEndpoint}
+              onChange={(e) => setTestEndpoint(e.target.value)}
+              placeholder="Test endpoint (e.g. /v1/models)"
+              className="w-full px-3 py-2 border rounded-lg text-sm font-mono"
+            />
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <button
+              onClick={handleAdd}
+              className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+            >
+              Add Provider
+            </button>
+          </div>
+        </div>
+
+        {/* Providers */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Your Providers</h3>
+          {customProviders.length === 0 ? (
+            <p className="text-xs text-gray-500">No custom providers yet</p>
+          ) : (
+            <div className="bg-white border rounded-lg divide-y">
+              {customProviders.map((provider) => (
+                <div key={provider.id} className="flex items-center gap-2 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-700 truncate">
+                      {provider.name}{' '}
+                      <span className="font-mono text-xs text-gray-400">{provider.id}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{provider.baseUrl}</div>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(provider)}
+                    className="text-sm text-red-500 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,24 @@
+import { useState } from 'react';
 import { usePopupStore } from '../store';
-import { AUTO_LOCK_OPTIONS } from '../../shared/constants';
+import {
+  AUTO_LOCK_OPTIONS,
+  KEY_SELECTION_OPTIONS,
+  MAX_UNLOCK_ATTEMPTS_OPTIONS,
+} from '../../shared/constants';
+import type { KeySelectionStrategy } from '../../shared/types/storage';
 
 export default function SettingsPage() {
-  const { settings, updateSettings, setCurrentPage } = usePopupStore();
+  const {
+    settings,
+    customProviders,
+    updateSettings,
+    setCurrentPage,
+    hasRecoveryCode,
+    createRecoveryCode,
+  } = usePopupStore();
+  const [recoveryPassword, setRecoveryPassword] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [recoveryError, setRecoveryError] = useState('');
 
   const handleAutoLockChange = async (minutes: number) => {
     await updateSettings({ autoLockMinutes: minutes });
@@ -12,6 +28,32 @@ export default function SettingsPage() {
     await updateSettings({ historyEnabled: !settings?.historyEnabled });
   };
 
+  const handleStrategyChange = async (keySelectionStrategy: KeySelectionStrategy) => {
+    await updateSettings({ keySelectionStrategy });
+  };
+
+  const handleWipeToggle = async () => {
+    await updateSettings({ wipeAfterMaxAttempts: !settings?.wipeAfterMaxAttempts });
+  };
+
+  const handleMaxAttemptsChange = async (maxUnlockAttempts: number) => {
+    await updateSettings({ maxUnlockAttempts });
+  };
+
+  const handleCreateRecoveryCode = async () => {
+    setRecoveryError('');
+    if (!recoveryPassword) {
+      setRecoveryError('Master password is required');
+      return;
+    }
+    try {
+      setRecoveryCode(await createRecoveryCode(recoveryPassword));
+      setRecoveryPassword('');
+    } catch (err) {
+      setRecoveryError(err instanceof Error ? err.message : 'Failed to create recovery code');
+    }
+  };
+
   return (
     <div className="flex flex-col h-full min-h-[480px]">
       {/* Header */}
@@ -54,6 +96,34 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Key selection */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Multiple Keys per Provider</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            How a key is picked when a site doesn't request a specific one
+          </p>
+          <div className="space-y-2">
+            {KEY_SELECTION_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-3 p-3 bg-white border rounded-lg cursor-pointer hover:bg-gray-50"
+              >
+                <input
+                  type="radio"
+                  name="keySelection"
+                  checked={settings?.keySelectionStrategy === option.value}
+                  onChange={() => handleStrategyChange(option.value)}
+                  className="w-4 h-4 text-blue-500"
+                />
+                <div>
+                  <div className="text-sm text-gray-700">{option.label}</div>
+                  <div className="text-xs text-gray-500">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
         {/* History */}
         <div>
           <h3 className="text-sm font-medium text-gray-700 mb-2">Request History</h3>
@@ -73,6 +143,136 @@ export default function SettingsPage() {
           </label>
         </div>
 
+        {/* Pricing */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Cost Estimates</h3>
+          <button
+            onClick={() => setCurrentPage('pricing')}
+            className="w-full flex items-center justify-between p-3 bg-white border rounded-lg hover:bg-gray-50"
+          >
+            <div className="text-left">
+              <div className="text-sm text-gray-700">Model prices</div>
+              <div className="text-xs text-gray-500">
+                {settings?.priceOverrides.length
+                  ? `${settings.priceOverrides.length} custom ${
+                      settings.priceOverrides.length === 1 ? 'price' : 'prices'
+                    }`
+                  : 'Using list prices'}
+              </div>
+            </div>
+            <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Custom providers */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Providers</h3>
+          <button
+            onClick={() => setCurrentPage('providers')}
+            className="w-full flex items-center justify-between p-3 bg-white border rounded-lg hover:bg-gray-50"
+          >
+            <div className="text-left">
+              <div className="text-sm text-gray-700">Custom providers</div>
+              <div className="text-xs text-gray-500">
+                {customProviders.length
+                  ? `${customProviders.length} custom ${
+                      customProviders.length === 1 ? 'provider' : 'providers'
+                    }`
+                  : 'OpenRouter, vLLM, gateways and other OpenAI-compatible APIs'}
+              </div>
+            </div>
+            <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Failed unlock attempts */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Failed Unlock Attempts</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            Repeated wrong passwords are slowed down with an increasing delay
+          </p>
+          <label className="flex items-center gap-3 p-3 bg-white border rounded-lg cursor-pointer hover:bg-gray-50">
+            <input
+              type="checkbox"
+              checked={settings?.wipeAfterMaxAttempts ?? false}
+              onChange={handleWipeToggle}
+              className="w-4 h-4 text-blue-500 rounded"
+            />
+            <div className="flex-1">
+              <div className="text-sm text-gray-700">Erase vault after too many failures</div>
+              <div className="text-xs text-gray-500">
+                Keep a backup or recovery code before enabling this
+              </div>
+            </div>
+          </label>
+          {settings?.wipeAfterMaxAttempts && (
+            <select
+              value={settings.maxUnlockAttempts}
+              onChange={(e) => handleMaxAttemptsChange(Number(e.target.value))}
+              className="w-full mt-2 px-3 py-2 border rounded-lg text-sm"
+            >
+              {MAX_UNLOCK_ATTEMPTS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {/* Recovery code */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Recovery Code</h3>
+          <p className="text-xs text-gray-500 mb-3">
+            {hasRecoveryCode
+              ? 'A recovery code is set. Generating a new one invalidates the old code.'
+              : 'No recovery code is set. Without one, a forgotten password means losing your keys.'}
+          </p>
+          {recoveryCode ? (
+            <div className="p-3 bg-white border rounded-lg font-mono text-center text-sm break-all select-all">
+              {recoveryCode}
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={recoveryPassword}
+                onChange={(e) => setRecoveryPassword(e.target.value)}
+                placeholder="Master password"
+                className="flex-1 px-3 py-2 border rounded-lg text-sm"
+              />
+              <button
+                onClick={handleCreateRecoveryCode}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 text-sm"
+              >
+                Generate
+              </button>
+            </div>
+          )}
+          {recoveryError && <p className="text-red-500 text-sm mt-2">{recoveryError}</p>}
+        </div>
+
+        {/* Backup */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Backup</h3>
+          <button
+            onClick={() => setCurrentPage('backup')}
+            className="w-full flex items-center justify-between p-3 bg-white border rounded-lg hover:bg-gray-50"
+          >
+            <div className="text-left">
+              <div className="text-sm text-gray-700">Export &amp; import</div>
+              <div className="text-xs text-gray-500">Move your keys to another machine</div>
+            </div>
+            <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+
         {/* Version */}
         <div className="pt-4 border-t">
           <p className="text-xs text-gray-400 text-center">
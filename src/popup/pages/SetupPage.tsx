@@ -3,11 +3,13 @@ import { usePopupStore } from '../store';
 import { PRODUCT_NAME } from '../../shared/constants';
 
 export default function SetupPage() {
-  const { createVault } = usePopupStore();
+  const { createVault, setCurrentPage } = usePopupStore();
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [hasSavedCode, setHasSavedCode] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -25,7 +27,7 @@ export default function SetupPage() {
 
     setIsLoading(true);
     try {
-      await createVault(password);
+      setRecoveryCode(await createVault(password));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create vault');
     } finally {
@@ -33,6 +35,49 @@ export default function SetupPage() {
     }
   };
 
+  if (recoveryCode) {
+    return (
+      <div className="p-6">
+        <div className="text-center mb-6">
+          <h1 className="text-xl font-bold text-gray-800">Save your recovery code</h1>
+          <p className="text-gray-600 text-sm mt-2">
+            If you forget your master password, this code is the only way to get your keys back.
+            It is shown only once.
+          </p>
+        </div>
+
+        <div className="p-4 bg-white border rounded-lg font-mono text-center text-sm break-all select-all">
+          {recoveryCode}
+        </div>
+
+        <button
+          onClick={() => navigator.clipboard.writeText(recoveryCode)}
+          className="w-full mt-3 py-2 border rounded-lg hover:bg-gray-100 text-sm"
+        >
+          Copy to clipboard
+        </button>
+
+        <label className="flex items-center gap-2 mt-6 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={hasSavedCode}
+            onChange={() => setHasSavedCode(!hasSavedCode)}
+            className="w-4 h-4 text-blue-500 rounded"
+          />
+          I have stored my recovery code somewhere safe
+        </label>
+
+        <button
+          onClick={() => setCurrentPage('home')}
+          disabled={!hasSavedCode}
+          className="w-full mt-4 py-2 px-4 bg-blue-500 text-white font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Continue
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="p-6">
       <div className="text-center mb-8">
@@ -88,7 +133,11 @@ export default function SetupPage() {
       </form>
 
       <p className="text-xs text-gray-500 text-center mt-6">
-        Your password encrypts all your API keys locally. It cannot be recovered if forgotten.
+        Your password encrypts all your API keys locally. If you forget it, only the recovery
+        code shown next can restore access.
+      </p>
+      <p className="text-xs text-gray-500 text-center mt-2">
+        Restoring? Create a new password, then import your backup from Settings.
       </p>
     </div>
   );
@@ -1,12 +1,43 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { usePopupStore } from '../store';
 import { PRODUCT_NAME } from '../../shared/constants';
+import type { UnlockResult } from '../../shared/types/storage';
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
 
 export default function UnlockPage() {
-  const { unlock } = usePopupStore();
+  const { unlock, recover, hasRecoveryCode, lockedUntil } = usePopupStore();
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const lockoutMs = lockedUntil ? lockedUntil - now : 0;
+  const isLockedOut = lockoutMs > 0;
+
+  // Tick while a lockout is active so the countdown updates
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  // Recovery
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  const describeFailure = (result: UnlockResult, message: string): string => {
+    if (result.attemptsRemaining !== undefined) {
+      return `${message}. ${result.attemptsRemaining} attempt(s) left before the vault is erased.`;
+    }
+    return message;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,9 +50,10 @@ export default function UnlockPage() {
 
     setIsLoading(true);
     try {
-      const success = await unlock(password);
-      if (!success) {
-        setError('Incorrect password');
+      const result = await unlock(password);
+      setNow(Date.now());
+      if (!result.success) {
+        setError(describeFailure(result, 'Incorrect password'));
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to unlock');
@@ -30,6 +62,44 @@ export default function UnlockPage() {
     }
   };
 
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!recoveryCode) {
+      setError('Please enter your recovery code');
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await recover(recoveryCode, newPassword);
+      setNow(Date.now());
+      if (!result.success) {
+        setError(describeFailure(result, 'Incorrect recovery code'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to recover vault');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRecovery = () => {
+    setIsRecovering(!isRecovering);
+    setError('');
+  };
+
   return (
     <div className="p-6">
       <div className="text-center mb-8">
@@ -39,34 +109,99 @@ export default function UnlockPage() {
           </svg>
         </div>
         <h1 className="text-2xl font-bold text-gray-800">{PRODUCT_NAME}</h1>
-        <p className="text-gray-600 mt-2">Enter your password to unlock</p>
+        <p className="text-gray-600 mt-2">
+          {isRecovering ? 'Enter your recovery code and a new password' : 'Enter your password to unlock'}
+        </p>
       </div>
 
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
+      {isRecovering ? (
+        <form onSubmit={handleRecover} className="space-y-4">
+          <input
+            type="text"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={isLoading}
+            autoFocus
+          />
           <input
             type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            placeholder="Enter password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="New password (min 8 characters)"
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             disabled={isLoading}
-            autoFocus
           />
-        </div>
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Confirm new password"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={isLoading}
+          />
+
+          {error && (
+            <p className="text-red-500 text-sm">{error}</p>
+          )}
+
+          {isLockedOut && (
+            <p className="text-amber-600 text-sm">
+              Too many failed attempts. Try again in {formatRemaining(lockoutMs)}.
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading || isLockedOut}
+            className="w-full py-2 px-4 bg-blue-500 text-white font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Recovering...' : 'Recover & Set Password'}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter password"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isLoading}
+              autoFocus
+            />
+          </div>
+
+          {error && (
+            <p className="text-red-500 text-sm">{error}</p>
+          )}
+
+          {isLockedOut && (
+            <p className="text-amber-600 text-sm">
+              Too many failed attempts. Try again in {formatRemaining(lockoutMs)}.
+            </p>
+          )}
 
-        {error && (
-          <p className="text-red-500 text-sm">{error}</p>
-        )}
+          <button
+            type="submit"
+            disabled={isLoading || isLockedOut}
+            className="w-full py-2 px-4 bg-blue-500 text-white font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+      )}
 
+      {hasRecoveryCode && (
         <button
-          type="submit"
-          disabled={isLoading}
-          className="w-full py-2 px-4 bg-blue-500 text-white font-medium rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={toggleRecovery}
+          className="w-full mt-4 text-sm text-blue-500 hover:text-blue-600"
         >
-          {isLoading ? 'Unlocking...' : 'Unlock'}
+          {isRecovering ? 'Back to password unlock' : 'Forgot password? Use recovery code'}
         </button>
-      </form>
+      )}
     </div>
   );
 }
@@ -0,0 +1,157 @@
+import { useMemo } from 'react';
+import { usePopupStore } from '../store';
+import { getProviderById } from '../../shared/types/providers';
+import { formatCost } from '../../shared/types/pricing';
+import type { RequestHistoryEntry } from '../../shared/types/storage';
+
+interface UsageTotal {
+  key: string;
+  label: string;
+  cost: number;
+  requests: number;
+}
+
+/**
+ * Sum estimated costs per group, most expensive first.
+ */
+function sumBy(
+  entries: RequestHistoryEntry[],
+  group: (entry: RequestHistoryEntry) => { key: string; label: string }
+): UsageTotal[] {
+  const totals = new Map<string, UsageTotal>();
+  for (const entry of entries) {
+    const { key, label } = group(entry);
+    const total = totals.get(key) ?? { key, label, cost: 0, requests: 0 };
+    total.cost += entry.estimatedCost ?? 0;
+    total.requests++;
+    totals.set(key, total);
+  }
+  return [...totals.values()].sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Local calendar day of a timestamp, as a sortable key.
+ */
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function TotalsSection({ title, totals }: { title: string; totals: UsageTotal[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      <div className="bg-white border rounded-lg divide-y">
+        {totals.map((total) => (
+          <div key={total.key} className="flex items-center gap-2 px-3 py-2">
+            <span className="text-sm text-gray-700 flex-1 truncate">{total.label}</span>
+            <span className="text-xs text-gray-400">
+              {total.requests} {total.requests === 1 ? 'request' : 'requests'}
+            </span>
+            <span className="text-sm font-medium text-gray-800 w-20 text-right">
+              {formatCost(total.cost)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const { history, customProviders, setCurrentPage } = usePopupStore();
+
+  const { priced, unpriced, byDay, byProvider, byDomain, today } = useMemo(() => {
+    const priced = history.filter((entry) => entry.estimatedCost !== undefined);
+    const byDay = sumBy(priced, (entry) => ({
+      key: dayKey(entry.timestamp),
+      label: new Date(entry.timestamp).toLocaleDateString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      }),
+    })).sort((a, b) => b.key.localeCompare(a.key));
+    const byProvider = sumBy(priced, (entry) => ({
+      key: entry.provider,
+      label: getProviderById(entry.provider, customProviders)?.name || entry.provider,
+    }));
+    const byDomain = sumBy(priced, (entry) => ({ key: entry.domain, label: entry.domain }));
+
+    return {
+      priced,
+      unpriced: history.filter((entry) => entry.tokensUsed !== undefined).length - priced.length,
+      byDay,
+      byProvider,
+      byDomain,
+      today: byDay.find((total) => total.key === dayKey(Date.now())),
+    };
+  }, [history, customProviders]);
+
+  const total = priced.reduce((sum, entry) => sum + (entry.estimatedCost ?? 0), 0);
+
+  return (
+    <div className="flex flex-col h-full min-h-[480px]">
+      {/* Header */}
+      <div className="bg-white border-b p-4 flex items-center gap-3">
+        <button
+          onClick={() => setCurrentPage('home')}
+          className="p-1 hover:bg-gray-100 rounded"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h1 className="text-lg font-semibold text-gray-800 flex-1">Usage &amp; Costs</h1>
+        <button
+          onClick={() => setCurrentPage('budgets')}
+          className="text-sm text-blue-500 hover:text-blue-600"
+        >
+          Budgets
+        </button>
+        <button
+          onClick={() => setCurrentPage('pricing')}
+          className="text-sm text-blue-500 hover:text-blue-600"
+        >
+          Prices
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="p-4 bg-white border-b">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="text-center p-3 bg-gray-50 rounded-lg">
+            <div className="text-2xl font-bold text-blue-500">{formatCost(today?.cost ?? 0)}</div>
+            <div className="text-xs text-gray-500">Today</div>
+          </div>
+          <div className="text-center p-3 bg-gray-50 rounded-lg">
+            <div className="text-2xl font-bold text-green-500">{formatCost(total)}</div>
+            <div className="text-xs text-gray-500">All history</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="flex-1 overflow-y-auto">
+        {priced.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <p>No priced requests yet</p>
+            <p className="text-sm mt-1">Costs are estimated from the token usage of each request</p>
+          </div>
+        ) : (
+          <div className="p-4 space-y-6">
+            <TotalsSection title="By Day" totals={byDay} />
+            <TotalsSection title="By Provider" totals={byProvider} />
+            <TotalsSection title="By Domain" totals={byDomain} />
+          </div>
+        )}
+        <p className="px-4 pb-4 text-xs text-gray-400">
+          Estimates from list prices and the requests kept in history.
+          {unpriced > 0 &&
+            ` ${unpriced} ${unpriced === 1 ? 'request uses a model' : 'requests use models'} without a known price.`}
+        </p>
+      </div>
+    </div>
+  );
+}
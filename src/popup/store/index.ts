@@ -1,8 +1,55 @@
 import { create } from 'zustand';
-import { vaultService, storageService } from '../../shared/services';
-import type { ApiKeyEntry, WhitelistedDomain, RequestHistoryEntry, ExtensionSettings } from '../../shared/types/storage';
+import { v4 as uuidv4 } from 'uuid';
+import { storageService } from '../../shared/services';
+import { VAULT_MESSAGE_TYPE, type VaultMessageType, type VaultState } from '../../shared/types/messages';
+import type {
+  CustomProvider,
+  CustomProviderId,
+  EndpointPattern,
+  LlmProvider,
+} from '../../shared/types/providers';
+import type { Budget, BudgetUsage } from '../../shared/types/budgets';
+import type {
+  ApiKeyEntry,
+  ApiKeySummary,
+  WhitelistedDomain,
+  RequestHistoryEntry,
+  ExtensionSettings,
+  ImportConflictStrategy,
+  ImportMode,
+  ImportResult,
+  KeySettings,
+  KeyValidationResult,
+  RateLimit,
+  UnlockResult,
+  VaultBackup,
+} from '../../shared/types/storage';
 
-type Page = 'setup' | 'unlock' | 'home' | 'keys' | 'domains' | 'history' | 'settings';
+/**
+ * Send a vault message to the background worker, which holds the decrypted vault.
+ */
+async function sendVaultMessage<T>(type: VaultMessageType, payload?: unknown): Promise<T> {
+  const response = await chrome.runtime.sendMessage({ type, payload });
+  if (!response?.success) {
+    const error = response?.error;
+    throw new Error(typeof error === 'string' ? error : error?.message || 'Background request failed');
+  }
+  return response.data as T;
+}
+
+type Page =
+  | 'setup'
+  | 'unlock'
+  | 'home'
+  | 'keys'
+  | 'domains'
+  | 'history'
+  | 'usage'
+  | 'budgets'
+  | 'settings'
+  | 'pricing'
+  | 'providers'
+  | 'backup';
 
 interface PopupState {
   // Navigation
@@ -12,35 +59,82 @@ interface PopupState {
   // Auth state
   isUnlocked: boolean;
   hasVault: boolean;
+  hasRecoveryCode: boolean;
+  lockedUntil: number | null;
   checkAuthState: () => Promise<void>;
 
   // Keys
-  keys: ApiKeyEntry[];
-  loadKeys: () => void;
+  keys: ApiKeySummary[];
+  loadKeys: () => Promise<void>;
 
   // Domains
   domains: WhitelistedDomain[];
   loadDomains: () => Promise<void>;
   addDomain: (domain: string) => Promise<void>;
   removeDomain: (domain: string) => Promise<void>;
+  setDomainRateLimit: (domain: string, rateLimit?: RateLimit) => Promise<void>;
+  setDomainAllowedEndpoints: (
+    domain: string,
+    provider: LlmProvider,
+    patterns: EndpointPattern[]
+  ) => Promise<void>;
 
   // History
   history: RequestHistoryEntry[];
   loadHistory: () => Promise<void>;
   clearHistory: () => Promise<void>;
 
+  // Budgets
+  budgets: Budget[];
+  budgetUsage: Record<string, BudgetUsage>;
+  loadBudgets: () => Promise<void>;
+  addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => Promise<void>;
+  removeBudget: (id: string) => Promise<void>;
+
+  // Custom providers
+  customProviders: CustomProvider[];
+  loadCustomProviders: () => Promise<void>;
+  addCustomProvider: (provider: Omit<CustomProvider, 'createdAt'>) => Promise<void>;
+  removeCustomProvider: (id: CustomProviderId) => Promise<void>;
+
   // Settings
   settings: ExtensionSettings | null;
   loadSettings: () => Promise<void>;
   updateSettings: (settings: Partial<ExtensionSettings>) => Promise<void>;
 
   // Actions
-  unlock: (password: string) => Promise<boolean>;
-  lock: () => void;
-  createVault: (password: string) => Promise<void>;
-  addKey: (provider: string, name: string, apiKey: string, endpointUrl?: string) => Promise<void>;
-  updateKey: (id: string, updates: Partial<Pick<ApiKeyEntry, 'name' | 'apiKey' | 'endpointUrl'>>) => Promise<void>;
+  unlock: (password: string) => Promise<UnlockResult>;
+  lock: () => Promise<void>;
+  createVault: (password: string) => Promise<string>;
+  recover: (recoveryCode: string, newPassword: string) => Promise<UnlockResult>;
+  createRecoveryCode: (password: string) => Promise<string>;
+  handleUnlockResult: (result: UnlockResult) => Promise<void>;
+  addKey: (
+    provider: LlmProvider,
+    name: string,
+    apiKey: string,
+    settings?: KeySettings
+  ) => Promise<string>;
+  updateKey: (
+    id: string,
+    updates: Partial<Pick<ApiKeyEntry, 'name' | 'apiKey' | 'endpointUrl' | 'azure'>>
+  ) => Promise<void>;
   deleteKey: (id: string) => Promise<void>;
+  setDefaultKey: (id: string) => Promise<void>;
+  testKey: (id: string) => Promise<KeyValidationResult>;
+  setDomainKeyAssignment: (domain: string, provider: LlmProvider, keyId?: string) => Promise<void>;
+
+  // Backup
+  exportBackup: (
+    password: string,
+    options: { passphrase?: string; includeHistory?: boolean }
+  ) => Promise<VaultBackup>;
+  importBackup: (
+    backup: VaultBackup,
+    passphrase: string,
+    mode: ImportMode,
+    strategy: ImportConflictStrategy
+  ) => Promise<ImportResult>;
 }
 
 export const usePopupStore = create<PopupState>((set, get) => ({
@@ -51,9 +145,11 @@ export const usePopupStore = create<PopupState>((set, get) => ({
   // Auth state
   isUnlocked: false,
   hasVault: false,
+  hasRecoveryCode: false,
+  lockedUntil: null,
   checkAuthState: async () => {
-    const hasVault = await vaultService.exists();
-    const isUnlocked = vaultService.isUnlocked();
+    const { hasVault, isUnlocked, hasRecoveryCode, lockedUntil } =
+      await sendVaultMessage<VaultState>(VAULT_MESSAGE_TYPE.GET_STATE);
 
     let currentPage: Page = 'home';
     if (!hasVault) {
@@ -62,17 +158,14 @@ export const usePopupStore = create<PopupState>((set, get) => ({
       currentPage = 'unlock';
     }
 
-    set({ hasVault, isUnlocked, currentPage });
+    set({ hasVault, isUnlocked, hasRecoveryCode, lockedUntil: lockedUntil ?? null, currentPage });
+    await get().loadKeys();
   },
 
   // Keys
   keys: [],
-  loadKeys: () => {
-    if (!vaultService.isUnlocked()) {
-      set({ keys: [] });
-      return;
-    }
-    const keys = vaultService.getKeys();
+  loadKeys: async () => {
+    const keys = await sendVaultMessage<ApiKeySummary[]>(VAULT_MESSAGE_TYPE.LIST_KEYS);
     set({ keys });
   },
 
@@ -90,6 +183,14 @@ export const usePopupStore = create<PopupState>((set, get) => ({
     await storageService.removeWhitelistedDomain(domain);
     await get().loadDomains();
   },
+  setDomainRateLimit: async (domain, rateLimit) => {
+    await storageService.setDomainRateLimit(domain, rateLimit);
+    await get().loadDomains();
+  },
+  setDomainAllowedEndpoints: async (domain, provider, patterns) => {
+    await storageService.setDomainAllowedEndpoints(domain, provider, patterns);
+    await get().loadDomains();
+  },
 
   // History
   history: [],
@@ -102,6 +203,47 @@ export const usePopupStore = create<PopupState>((set, get) => ({
     set({ history: [] });
   },
 
+  // Budgets
+  budgets: [],
+  budgetUsage: {},
+  loadBudgets: async () => {
+    const [budgets, budgetUsage] = await Promise.all([
+      storageService.getBudgets(),
+      storageService.getBudgetUsage(),
+    ]);
+    set({ budgets, budgetUsage });
+  },
+  addBudget: async (budget) => {
+    const budgets = await storageService.getBudgets();
+    await storageService.saveBudgets([...budgets, { ...budget, id: uuidv4(), createdAt: Date.now() }]);
+    await get().loadBudgets();
+  },
+  removeBudget: async (id) => {
+    const budgets = await storageService.getBudgets();
+    await storageService.saveBudgets(budgets.filter((b) => b.id !== id));
+    await get().loadBudgets();
+  },
+
+  // Custom providers
+  customProviders: [],
+  loadCustomProviders: async () => {
+    const customProviders = await storageService.getCustomProviders();
+    set({ customProviders });
+  },
+  addCustomProvider: async (provider) => {
+    const customProviders = await storageService.getCustomProviders();
+    await storageService.saveCustomProviders([
+      ...customProviders,
+      { ...provider, createdAt: Date.now() },
+    ]);
+    await get().loadCustomProviders();
+  },
+  removeCustomProvider: async (id) => {
+    const customProviders = await storageService.getCustomProviders();
+    await storageService.saveCustomProviders(customProviders.filter((p) => p.id !== id));
+    await get().loadCustomProviders();
+  },
+
   // Settings
   settings: null,
   loadSettings: async () => {
@@ -115,36 +257,110 @@ export const usePopupStore = create<PopupState>((set, get) => ({
 
   // Actions
   unlock: async (password) => {
-    const success = await vaultService.unlock(password);
-    if (success) {
-      set({ isUnlocked: true, currentPage: 'home' });
-      get().loadKeys();
-    }
-    return success;
+    const result = await sendVaultMessage<UnlockResult>(VAULT_MESSAGE_TYPE.UNLOCK, { password });
+    await get().handleUnlockResult(result);
+    return result;
   },
 
-  lock: () => {
-    vaultService.lock();
+  lock: async () => {
+    await sendVaultMessage(VAULT_MESSAGE_TYPE.LOCK);
     set({ isUnlocked: false, currentPage: 'unlock', keys: [] });
   },
 
   createVault: async (password) => {
-    await vaultService.create(password);
-    set({ hasVault: true, isUnlocked: true, currentPage: 'home' });
+    // Stay on the setup page so the recovery code can be shown
+    const recoveryCode = await sendVaultMessage<string>(VAULT_MESSAGE_TYPE.CREATE, { password });
+    set({ hasVault: true, isUnlocked: true, hasRecoveryCode: true, keys: [] });
+    return recoveryCode;
   },
 
-  addKey: async (provider, name, apiKey, endpointUrl) => {
-    await vaultService.addKey(provider as any, name, apiKey, endpointUrl);
-    get().loadKeys();
+  recover: async (recoveryCode, newPassword) => {
+    const result = await sendVaultMessage<UnlockResult>(VAULT_MESSAGE_TYPE.RECOVER, {
+      recoveryCode,
+      newPassword,
+    });
+    await get().handleUnlockResult(result);
+    return result;
+  },
+
+  handleUnlockResult: async (result) => {
+    if (result.success) {
+      set({ isUnlocked: true, lockedUntil: null, currentPage: 'home' });
+      await get().loadKeys();
+    } else if (result.wiped) {
+      set({ hasVault: false, hasRecoveryCode: false, lockedUntil: null, currentPage: 'setup' });
+    } else {
+      set({ lockedUntil: result.lockedUntil ?? null });
+    }
+  },
+
+  createRecoveryCode: async (password) => {
+    const recoveryCode = await sendVaultMessage<string>(VAULT_MESSAGE_TYPE.CREATE_RECOVERY_CODE, {
+      password,
+    });
+    set({ hasRecoveryCode: true });
+    return recoveryCode;
+  },
+
+  addKey: async (provider, name, apiKey, settings) => {
+    const id = await sendVaultMessage<string>(VAULT_MESSAGE_TYPE.ADD_KEY, {
+      provider,
+      name,
+      apiKey,
+      settings,
+    });
+    await get().loadKeys();
+    return id;
   },
 
   updateKey: async (id, updates) => {
-    await vaultService.updateKey(id, updates);
-    get().loadKeys();
+    await sendVaultMessage(VAULT_MESSAGE_TYPE.UPDATE_KEY, { id, updates });
+    await get().loadKeys();
   },
 
   deleteKey: async (id) => {
-    await vaultService.deleteKey(id);
-    get().loadKeys();
+    await sendVaultMessage(VAULT_MESSAGE_TYPE.DELETE_KEY, { id });
+    await get().loadKeys();
+  },
+
+  setDefaultKey: async (id) => {
+    await sendVaultMessage(VAULT_MESSAGE_TYPE.SET_DEFAULT_KEY, { id });
+    await get().loadKeys();
+  },
+
+  testKey: async (id) => {
+    const result = await sendVaultMessage<KeyValidationResult>(VAULT_MESSAGE_TYPE.TEST_KEY, { id });
+    await get().loadKeys();
+    return result;
+  },
+
+  setDomainKeyAssignment: async (domain, provider, keyId) => {
+    await storageService.setDomainKeyAssignment(domain, provider, keyId);
+    await get().loadDomains();
+  },
+
+  // Backup
+  exportBackup: async (password, options) => {
+    return sendVaultMessage<VaultBackup>(VAULT_MESSAGE_TYPE.EXPORT_BACKUP, { password, ...options });
+  },
+
+  importBackup: async (backup, passphrase, mode, strategy) => {
+    const result = await sendVaultMessage<ImportResult>(VAULT_MESSAGE_TYPE.IMPORT_BACKUP, {
+      backup,
+      passphrase,
+      mode,
+      strategy,
+    });
+
+    // The background worker rewrote storage; drop our stale copy
+    storageService.clearCache();
+    await Promise.all([
+      get().loadKeys(),
+      get().loadDomains(),
+      get().loadHistory(),
+      get().loadSettings(),
+      get().loadCustomProviders(),
+    ]);
+    return result;
   },
 }));
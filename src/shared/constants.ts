@@ -1,3 +1,5 @@
+import type { KdfDescriptor } from './types/storage';
+
 export const PRODUCT_NAME = import.meta.env.VITE_PRODUCT_NAME || 'TinyLocket';
 
 export const AUTO_LOCK_OPTIONS = [
@@ -10,6 +12,78 @@ export const AUTO_LOCK_OPTIONS = [
 
 export const DEFAULT_AUTO_LOCK_MINUTES = 30;
 
+export const MAX_UNLOCK_ATTEMPTS_OPTIONS = [
+  { value: 5, label: '5 attempts' },
+  { value: 10, label: '10 attempts' },
+  { value: 20, label: '20 attempts' },
+] as const;
+
+export const KEY_SELECTION_OPTIONS = [
+  { value: 'default', label: 'Default key', description: 'Always use the provider\'s default key' },
+  { value: 'round_robin', label: 'Round-robin', description: 'Rotate through all keys' },
+  { value: 'failover', label: 'Failover', description: 'Try the next key on 401 or 429' },
+] as const;
+
+export const BUDGET_PERIOD_OPTIONS = [
+  { value: 'hour', label: 'Per hour' },
+  { value: 'day', label: 'Per day' },
+  { value: 'week', label: 'Per week' },
+  { value: 'month', label: 'Per month' },
+] as const;
+
+// Rate limiting: requests per minute are counted over a sliding window
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+export const RATE_LIMIT_MAX_QUEUED = 50; // Queued requests beyond this are rejected
+export const RATE_LIMIT_RETRY_MS = 1000; // retryAfterMs hint when only concurrency is exhausted
+
+// Azure OpenAI api-version used when neither the page nor the key sets one
+export const AZURE_DEFAULT_API_VERSION = '2024-10-21';
+
+// Region prefilled for new Bedrock keys
+export const AWS_DEFAULT_REGION = 'us-east-1';
+
+// Provider responses that make the failover strategy try the next key
+export const FAILOVER_STATUSES = [401, 429];
+
+// Unlock backoff: a few free attempts, then an exponentially growing delay
+export const UNLOCK_FREE_ATTEMPTS = 3;
+export const UNLOCK_BACKOFF_BASE_MS = 5000;
+export const UNLOCK_BACKOFF_MAX_MS = 30 * 60 * 1000;
+
 export const PBKDF2_ITERATIONS = 310000; // OWASP 2023 recommendation
 export const SALT_LENGTH = 16;
 export const KEY_LENGTH = 32; // 256 bits for AES-256
+
+export const CURRENT_VAULT_VERSION = 3;
+export const BACKUP_FORMAT_VERSION = 1;
+
+export const RECOVERY_CODE_BYTES = 20; // 160 bits, 32 base32 characters
+
+// KDF implied by version 1 vaults, which have no KDF metadata
+export const LEGACY_KDF: KdfDescriptor = {
+  algorithm: 'pbkdf2-sha256',
+  iterations: PBKDF2_ITERATIONS,
+};
+
+// Argon2id cost for new vaults and backups
+export const ARGON2ID_PARAMS = {
+  t: 2,
+  m: 19456, // 19 MiB, OWASP 2023 minimum for Argon2id
+  p: 1,
+};
+
+// KDF for new vaults; existing vaults are upgraded on their next unlock
+export const DEFAULT_KDF: KdfDescriptor = { algorithm: 'argon2id', ...ARGON2ID_PARAMS };
+
+// Binary response bodies are sent to the page as base64 slices of this many bytes
+export const RESPONSE_CHUNK_BYTES = 1024 * 1024;
+
+// Streamed chunks the background may send before waiting for the content script to ack
+export const STREAM_ACK_WINDOW = 16;
+
+// Opt-in retries (per request) for rate limits and transient provider errors
+export const RETRYABLE_STATUSES = [429, 500, 502, 503, 504, 529];
+export const RETRY_DEFAULT_ATTEMPTS = 3;
+export const RETRY_MAX_ATTEMPTS = 10;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 60 * 1000;
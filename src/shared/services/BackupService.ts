@@ -0,0 +1,177 @@
+import { cryptoService } from './CryptoService';
+import { storageService } from './StorageService';
+import { vaultService } from './VaultService';
+import {
+  ARGON2ID_PARAMS,
+  BACKUP_FORMAT_VERSION,
+  DEFAULT_KDF,
+  PBKDF2_ITERATIONS,
+} from '../constants';
+import type { CustomProvider } from '../types/providers';
+import type {
+  BackupContents,
+  ImportConflictStrategy,
+  ImportMode,
+  ImportResult,
+  KdfDescriptor,
+  RequestHistoryEntry,
+  VaultBackup,
+  WhitelistedDomain,
+} from '../types/storage';
+
+/**
+ * Service for exporting and importing encrypted vault backups.
+ */
+export class BackupService {
+  /**
+   * Export the unlocked vault, whitelist and settings as an encrypted backup.
+   * The master password is always required; an optional export passphrase
+   * protects the file instead of the master password.
+   */
+  async export(
+    password: string,
+    options: { passphrase?: string; includeHistory?: boolean } = {}
+  ): Promise<VaultBackup> {
+    if (!vaultService.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    await vaultService.requirePassword(password);
+
+    const data = await storageService.getAll();
+    const contents: BackupContents = {
+      keys: vaultService.getKeys(),
+      whitelistedDomains: data.whitelistedDomains,
+      settings: data.settings,
+      requestHistory: options.includeHistory ? data.requestHistory : undefined,
+      customProviders: data.customProviders,
+    };
+
+    const { key, salt } = await cryptoService.deriveKey(options.passphrase || password);
+    const { ciphertext, iv } = await cryptoService.encrypt(JSON.stringify(contents), key);
+    cryptoService.zeroMemory(key);
+
+    return {
+      format: 'tinylocket-backup',
+      version: BACKUP_FORMAT_VERSION,
+      kdf: DEFAULT_KDF,
+      salt: cryptoService.toBase64(salt),
+      iv: cryptoService.toBase64(iv),
+      encrypted: cryptoService.toBase64(ciphertext),
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Import an encrypted backup into the unlocked vault.
+   */
+  async import(
+    backup: VaultBackup,
+    passphrase: string,
+    mode: ImportMode,
+    strategy: ImportConflictStrategy
+  ): Promise<ImportResult> {
+    if (!vaultService.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    if (backup?.format !== 'tinylocket-backup' || !backup.kdf) {
+      throw new Error('Not a TinyLocket backup file');
+    }
+    if (backup.version > BACKUP_FORMAT_VERSION) {
+      throw new Error('Backup was created by a newer version of TinyLocket');
+    }
+    if (!isKdfWithinLimits(backup.kdf)) {
+      throw new Error('Backup uses key derivation settings TinyLocket does not produce');
+    }
+
+    let contents: BackupContents;
+    try {
+      const { key } = await cryptoService.deriveKey(
+        passphrase,
+        cryptoService.fromBase64(backup.salt),
+        backup.kdf
+      );
+      const decrypted = await cryptoService.decrypt(
+        cryptoService.fromBase64(backup.encrypted),
+        key,
+        cryptoService.fromBase64(backup.iv)
+      );
+      cryptoService.zeroMemory(key);
+      contents = JSON.parse(decrypted) as BackupContents;
+    } catch {
+      throw new Error('Incorrect passphrase or corrupted backup');
+    }
+
+    const result = await vaultService.importKeys(contents.keys, mode, strategy);
+
+    if (mode === 'replace') {
+      await storageService.saveWhitelistedDomains(contents.whitelistedDomains);
+      await storageService.updateSettings(contents.settings);
+      await storageService.saveCustomProviders(contents.customProviders ?? []);
+      if (contents.requestHistory) {
+        await storageService.saveRequestHistory(contents.requestHistory);
+      }
+    } else {
+      await storageService.saveWhitelistedDomains(
+        mergeDomains(await storageService.getWhitelistedDomains(), contents.whitelistedDomains)
+      );
+      await storageService.saveCustomProviders(
+        mergeCustomProviders(await storageService.getCustomProviders(), contents.customProviders ?? [])
+      );
+      if (contents.requestHistory) {
+        const settings = await storageService.getSettings();
+        const history = mergeHistory(await storageService.getRequestHistory(), contents.requestHistory);
+        await storageService.saveRequestHistory(history.slice(-settings.maxHistoryEntries));
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Whether a backup's KDF is one TinyLocket writes, with costs no higher than its own.
+ * The file is untrusted; oversized parameters could stall or crash the worker.
+ */
+function isKdfWithinLimits(kdf: KdfDescriptor): boolean {
+  const inRange = (value: unknown, max: number) =>
+    Number.isSafeInteger(value) && (value as number) >= 1 && (value as number) <= max;
+
+  switch (kdf.algorithm) {
+    case 'pbkdf2-sha256':
+      return inRange(kdf.iterations, PBKDF2_ITERATIONS);
+    case 'argon2id':
+      return (
+        inRange(kdf.t, ARGON2ID_PARAMS.t) &&
+        inRange(kdf.m, ARGON2ID_PARAMS.m) &&
+        inRange(kdf.p, ARGON2ID_PARAMS.p) &&
+        kdf.m >= 8 * kdf.p // Argon2's minimum memory
+      );
+    default:
+      return false;
+  }
+}
+
+function mergeDomains(current: WhitelistedDomain[], imported: WhitelistedDomain[]): WhitelistedDomain[] {
+  const known = new Set(current.map((d) => d.domain));
+  return [...current, ...imported.filter((d) => !known.has(d.domain))];
+}
+
+function mergeCustomProviders(
+  current: CustomProvider[],
+  imported: CustomProvider[]
+): CustomProvider[] {
+  const known = new Set(current.map((p) => p.id));
+  return [...current, ...imported.filter((p) => !known.has(p.id))];
+}
+
+function mergeHistory(
+  current: RequestHistoryEntry[],
+  imported: RequestHistoryEntry[]
+): RequestHistoryEntry[] {
+  const known = new Set(current.map((e) => e.id));
+  return [...current, ...imported.filter((e) => !known.has(e.id))].sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+}
+
+export const backupService = new BackupService();
@@ -1,26 +1,59 @@
-import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { argon2idAsync } from '@noble/hashes/argon2';
 import { sha256 } from '@noble/hashes/sha256';
 import { gcm } from '@noble/ciphers/aes';
 import { randomBytes } from '@noble/hashes/utils';
-import { PBKDF2_ITERATIONS, SALT_LENGTH, KEY_LENGTH } from '../constants';
+import { SALT_LENGTH, KEY_LENGTH, DEFAULT_KDF, RECOVERY_CODE_BYTES } from '../constants';
+import type { KdfDescriptor } from '../types/storage';
+
+// Crockford base32, which avoids the easily confused I, L, O and U
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
 
 /**
  * Cryptographic service for encryption/decryption operations.
- * Uses PBKDF2-SHA256 for key derivation and AES-256-GCM for encryption.
+ * Uses a pluggable KDF (Argon2id, scrypt or PBKDF2-SHA256) for key derivation
+ * and AES-256-GCM for encryption.
  */
 export class CryptoService {
   /**
-   * Derive an encryption key from a password using PBKDF2-SHA256.
+   * Derive an encryption key from a password using the given KDF.
    */
   async deriveKey(
     password: string,
-    salt?: Uint8Array
+    salt?: Uint8Array,
+    kdf: KdfDescriptor = DEFAULT_KDF
   ): Promise<{ key: Uint8Array; salt: Uint8Array }> {
     const saltBytes = salt ?? randomBytes(SALT_LENGTH);
-    const key = pbkdf2(sha256, password, saltBytes, {
-      c: PBKDF2_ITERATIONS,
-      dkLen: KEY_LENGTH,
-    });
+    let key: Uint8Array;
+
+    switch (kdf.algorithm) {
+      case 'pbkdf2-sha256':
+        key = await pbkdf2Async(sha256, password, saltBytes, {
+          c: kdf.iterations,
+          dkLen: KEY_LENGTH,
+        });
+        break;
+      case 'scrypt':
+        key = await scryptAsync(password, saltBytes, {
+          N: kdf.N,
+          r: kdf.r,
+          p: kdf.p,
+          dkLen: KEY_LENGTH,
+        });
+        break;
+      case 'argon2id':
+        key = await argon2idAsync(password, saltBytes, {
+          t: kdf.t,
+          m: kdf.m,
+          p: kdf.p,
+          dkLen: KEY_LENGTH,
+        });
+        break;
+      default:
+        throw new Error(`Unsupported KDF: ${(kdf as KdfDescriptor).algorithm}`);
+    }
+
     return { key, salt: saltBytes };
   }
 
@@ -55,6 +88,45 @@ export class CryptoService {
     return decoder.decode(plaintext);
   }
 
+  /**
+   * Generate a random data key.
+   */
+  generateKey(): Uint8Array {
+    return randomBytes(KEY_LENGTH);
+  }
+
+  /**
+   * Generate a high-entropy recovery code, formatted as dash-separated groups.
+   */
+  generateRecoveryCode(): string {
+    const bytes = randomBytes(RECOVERY_CODE_BYTES);
+    let bits = 0;
+    let value = 0;
+    let code = '';
+
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        code += RECOVERY_CODE_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    return code.match(/.{1,4}/g)!.join('-');
+  }
+
+  /**
+   * Normalize a user-typed recovery code (case, separators, look-alike characters).
+   */
+  normalizeRecoveryCode(code: string): string {
+    return code
+      .toUpperCase()
+      .replace(/[^0-9A-Z]/g, '')
+      .replace(/O/g, '0')
+      .replace(/[IL]/g, '1');
+  }
+
   /**
    * Convert Uint8Array to base64 string.
    */
@@ -65,7 +137,7 @@ export class CryptoService {
   /**
    * Convert base64 string to Uint8Array.
    */
-  fromBase64(base64: string): Uint8Array {
+  fromBase64(base64: string): Uint8Array<ArrayBuffer> {
     const binary = atob(base64);
     const bytes = new Uint8Array(binary.length);
     for (let i = 0; i < binary.length; i++) {
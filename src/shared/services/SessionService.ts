@@ -1,31 +1,76 @@
 import { vaultService } from './VaultService';
 import { storageService } from './StorageService';
+import { cryptoService } from './CryptoService';
 import { DEFAULT_AUTO_LOCK_MINUTES } from '../constants';
+import type { UnlockResult } from '../types/storage';
 
 const AUTO_LOCK_ALARM_NAME = 'tinylocket-auto-lock';
 
+// IndexedDB record holding the session's wrapping key (see persistSession)
+const WRAPPING_KEY_DB = 'tinylocket-session';
+const WRAPPING_KEY_STORE = 'keys';
+const WRAPPING_KEY_ID = 'session-wrapping-key';
+
+/**
+ * Run one request against the wrapping key store.
+ */
+function withKeyStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(WRAPPING_KEY_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(WRAPPING_KEY_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const request = run(db.transaction(WRAPPING_KEY_STORE, mode).objectStore(WRAPPING_KEY_STORE));
+      request.onsuccess = () => {
+        db.close();
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        db.close();
+        reject(request.error);
+      };
+    };
+  });
+}
+
 /**
  * Service for managing session state (lock/unlock, auto-lock).
  */
 export class SessionService {
   private lastActivity: number = Date.now();
+  private ready: Promise<void> = Promise.resolve();
+  private keyDeletion: Promise<unknown> = Promise.resolve(); // Pending removal by lock()
 
   /**
    * Initialize the session service.
    * Should be called when the background service worker starts.
    */
   async init(): Promise<void> {
-    // Set up alarm listener for auto-lock
+    // Set up alarm listener for auto-lock (synchronously, so alarms can wake the worker)
     chrome.alarms.onAlarm.addListener((alarm) => {
       if (alarm.name === AUTO_LOCK_ALARM_NAME) {
-        this.handleAutoLock();
+        this.ready.then(() => this.handleAutoLock());
       }
     });
 
-    // Reset auto-lock timer on startup if unlocked
-    if (vaultService.isUnlocked()) {
-      await this.resetAutoLockTimer();
-    }
+    // The session holds the wrapped vault key; keep it out of reach of content scripts.
+    // A session that can't be restored (e.g. a corrupt entry) is discarded, leaving the vault locked.
+    this.ready = chrome.storage.session
+      .setAccessLevel({ accessLevel: 'TRUSTED_CONTEXTS' })
+      .then(() => this.restoreSession())
+      .catch(() => this.lock());
+    await this.ready;
+  }
+
+  /**
+   * Resolve once any persisted session has been restored.
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
   }
 
   /**
@@ -34,10 +79,89 @@ export class SessionService {
   async recordActivity(): Promise<void> {
     this.lastActivity = Date.now();
     if (vaultService.isUnlocked()) {
+      await storageService.saveSession({ lastActivity: this.lastActivity });
       await this.resetAutoLockTimer();
     }
   }
 
+  /**
+   * Restore an unlocked session persisted in chrome.storage.session.
+   * MV3 service workers are killed when idle, which wipes the in-memory vault key.
+   */
+  private async restoreSession(): Promise<void> {
+    const session = await storageService.getSession();
+    if (!session.wrappedKey) {
+      return;
+    }
+
+    this.lastActivity = session.lastActivity ?? Date.now();
+
+    // Don't resurrect a session that should have auto-locked while the worker was asleep
+    const minutes = await this.getAutoLockMinutes();
+    if (minutes > 0 && Date.now() - this.lastActivity >= minutes * 60 * 1000) {
+      this.lock();
+      return;
+    }
+
+    try {
+      const wrappingKey = await withKeyStore<CryptoKey | undefined>('readonly', (store) =>
+        store.get(WRAPPING_KEY_ID)
+      );
+      if (!wrappingKey) {
+        this.lock();
+        return;
+      }
+      const unwrapped = await crypto.subtle.unwrapKey(
+        'raw',
+        cryptoService.fromBase64(session.wrappedKey),
+        wrappingKey,
+        'AES-KW',
+        'AES-GCM',
+        true,
+        ['encrypt']
+      );
+      const key = new Uint8Array(await crypto.subtle.exportKey('raw', unwrapped));
+      const restored = await vaultService.unlockWithKey(key);
+      if (!restored) {
+        this.lock();
+        return;
+      }
+    } catch {
+      this.lock();
+      return;
+    }
+
+    // Alarms survive worker restarts, but make sure one is pending
+    const alarm = await chrome.alarms.get(AUTO_LOCK_ALARM_NAME);
+    if (!alarm && minutes > 0) {
+      await this.handleAutoLock();
+    }
+  }
+
+  /**
+   * Persist the unlocked vault key in chrome.storage.session, wrapped with a fresh
+   * per-session AES-KW key. The wrapping key is non-extractable and kept apart, in the
+   * extension's IndexedDB, so a restarted worker can unwrap with it but nothing can read it.
+   */
+  private async persistSession(): Promise<void> {
+    const wrappingKey = await crypto.subtle.generateKey({ name: 'AES-KW', length: 256 }, false, [
+      'wrapKey',
+      'unwrapKey',
+    ]);
+    const key = new Uint8Array(vaultService.getEncryptionKey());
+    const vaultKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', true, ['encrypt']);
+    cryptoService.zeroMemory(key);
+    const wrapped = await crypto.subtle.wrapKey('raw', vaultKey, wrappingKey, 'AES-KW');
+
+    // A lock just before this unlock must not delete the new wrapping key
+    await this.keyDeletion;
+    await withKeyStore('readwrite', (store) => store.put(wrappingKey, WRAPPING_KEY_ID));
+    await storageService.saveSession({
+      wrappedKey: cryptoService.toBase64(new Uint8Array(wrapped)),
+      lastActivity: this.lastActivity,
+    });
+  }
+
   /**
    * Reset the auto-lock timer based on settings.
    */
@@ -63,8 +187,8 @@ export class SessionService {
     const settings = await storageService.getSettings();
     const minutes = settings.autoLockMinutes;
 
-    if (minutes === 0) {
-      // Auto-lock is disabled
+    if (minutes === 0 || !vaultService.isUnlocked()) {
+      // Auto-lock is disabled, or there is nothing to lock
       return;
     }
 
@@ -73,7 +197,7 @@ export class SessionService {
 
     if (inactiveMs >= thresholdMs) {
       // Lock the vault due to inactivity
-      vaultService.lock();
+      this.lock();
 
       // Notify any open popups
       try {
@@ -121,17 +245,55 @@ export class SessionService {
   lock(): void {
     vaultService.lock();
     chrome.alarms.clear(AUTO_LOCK_ALARM_NAME);
+    storageService.clearSession();
+    this.keyDeletion = withKeyStore('readwrite', (store) => store.delete(WRAPPING_KEY_ID)).catch(
+      () => {}
+    );
   }
 
   /**
    * Unlock the vault with password.
    */
-  async unlock(password: string): Promise<boolean> {
-    const success = await vaultService.unlock(password);
-    if (success) {
-      await this.resetAutoLockTimer();
+  async unlock(password: string): Promise<UnlockResult> {
+    const result = await vaultService.unlock(password);
+    if (result.success) {
+      await this.startSession();
+    } else if (result.wiped) {
+      this.lock();
     }
-    return success;
+    return result;
+  }
+
+  /**
+   * Unlock the vault with the recovery code and set a new password.
+   */
+  async recover(recoveryCode: string, newPassword: string): Promise<UnlockResult> {
+    const result = await vaultService.recover(recoveryCode, newPassword);
+    if (result.success) {
+      await this.startSession();
+    } else if (result.wiped) {
+      this.lock();
+    }
+    return result;
+  }
+
+  /**
+   * Create a new vault and start an unlocked session for it.
+   * Returns the vault's recovery code.
+   */
+  async create(password: string): Promise<string> {
+    const recoveryCode = await vaultService.create(password);
+    await this.startSession();
+    return recoveryCode;
+  }
+
+  /**
+   * Start (or refresh) the persisted session after the vault key changed.
+   */
+  async startSession(): Promise<void> {
+    this.lastActivity = Date.now();
+    await this.persistSession();
+    await this.resetAutoLockTimer();
   }
 }
 
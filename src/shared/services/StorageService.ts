@@ -4,8 +4,13 @@ import type {
   WhitelistedDomain,
   RequestHistoryEntry,
   ExtensionSettings,
+  SessionState,
+  UnlockAttempts,
+  RateLimit,
 } from '../types/storage';
+import type { Budget, BudgetUsage } from '../types/budgets';
 import { DEFAULT_SETTINGS } from '../types/storage';
+import type { CustomProvider, EndpointPattern, LlmProvider } from '../types/providers';
 
 /**
  * Service for interacting with Chrome extension storage.
@@ -13,6 +18,16 @@ import { DEFAULT_SETTINGS } from '../types/storage';
 export class StorageService {
   private cache: Partial<StoredData> | null = null;
 
+  constructor() {
+    // The popup and the background worker each have their own cache;
+    // drop ours whenever the other context writes to local storage.
+    chrome.storage.onChanged.addListener((_changes, areaName) => {
+      if (areaName === 'local') {
+        this.cache = null;
+      }
+    });
+  }
+
   /**
    * Get all stored data.
    */
@@ -27,6 +42,10 @@ export class StorageService {
       'requestHistory',
       'settings',
       'customEndpoints',
+      'unlockAttempts',
+      'budgets',
+      'budgetUsage',
+      'customProviders',
     ]);
 
     const data: StoredData = {
@@ -35,6 +54,10 @@ export class StorageService {
       requestHistory: result.requestHistory ?? [],
       settings: { ...DEFAULT_SETTINGS, ...result.settings },
       customEndpoints: result.customEndpoints ?? {},
+      unlockAttempts: result.unlockAttempts ?? { failedCount: 0, lockedUntil: 0 },
+      budgets: result.budgets ?? [],
+      budgetUsage: result.budgetUsage ?? {},
+      customProviders: result.customProviders ?? [],
     };
 
     this.cache = data;
@@ -59,6 +82,34 @@ export class StorageService {
     }
   }
 
+  /**
+   * Delete the vault (e.g. after too many failed unlock attempts).
+   */
+  async deleteVault(): Promise<void> {
+    await chrome.storage.local.remove('vault');
+    if (this.cache) {
+      this.cache.vault = undefined;
+    }
+  }
+
+  /**
+   * Get failed unlock attempt tracking.
+   */
+  async getUnlockAttempts(): Promise<UnlockAttempts> {
+    const data = await this.getAll();
+    return data.unlockAttempts;
+  }
+
+  /**
+   * Save failed unlock attempt tracking.
+   */
+  async saveUnlockAttempts(unlockAttempts: UnlockAttempts): Promise<void> {
+    await chrome.storage.local.set({ unlockAttempts });
+    if (this.cache) {
+      this.cache.unlockAttempts = unlockAttempts;
+    }
+  }
+
   /**
    * Get whitelisted domains.
    */
@@ -75,7 +126,8 @@ export class StorageService {
     const existing = domains.find((d) => d.domain === domain);
     if (existing) return;
 
-    const newDomains = [...domains, { domain, addedAt: Date.now() }];
+    const { defaultRateLimit } = await this.getSettings();
+    const newDomains = [...domains, { domain, addedAt: Date.now(), rateLimit: defaultRateLimit }];
     await chrome.storage.local.set({ whitelistedDomains: newDomains });
     if (this.cache) {
       this.cache.whitelistedDomains = newDomains;
@@ -94,6 +146,77 @@ export class StorageService {
     }
   }
 
+  /**
+   * Pin a key to a whitelisted domain for a provider (or clear the pin).
+   */
+  async setDomainKeyAssignment(
+    domain: string,
+    provider: LlmProvider,
+    keyId: string | undefined
+  ): Promise<void> {
+    const domains = await this.getWhitelistedDomains();
+    const newDomains = domains.map((d) => {
+      if (d.domain !== domain) return d;
+      const keyAssignments = { ...d.keyAssignments };
+      if (keyId) {
+        keyAssignments[provider] = keyId;
+      } else {
+        delete keyAssignments[provider];
+      }
+      return { ...d, keyAssignments };
+    });
+    await this.saveWhitelistedDomains(newDomains);
+  }
+
+  /**
+   * Set a whitelisted domain's rate limit (or remove it).
+   */
+  async setDomainRateLimit(domain: string, rateLimit: RateLimit | undefined): Promise<void> {
+    const domains = await this.getWhitelistedDomains();
+    const newDomains = domains.map((d) => (d.domain === domain ? { ...d, rateLimit } : d));
+    await this.saveWhitelistedDomains(newDomains);
+  }
+
+  /**
+   * Set the endpoints a whitelisted domain may call beyond a provider's defaults.
+   */
+  async setDomainAllowedEndpoints(
+    domain: string,
+    provider: LlmProvider,
+    patterns: EndpointPattern[]
+  ): Promise<void> {
+    const domains = await this.getWhitelistedDomains();
+    const newDomains = domains.map((d) => {
+      if (d.domain !== domain) return d;
+      const allowedEndpoints = { ...d.allowedEndpoints };
+      if (patterns.length > 0) {
+        allowedEndpoints[provider] = patterns;
+      } else {
+        delete allowedEndpoints[provider];
+      }
+      return { ...d, allowedEndpoints };
+    });
+    await this.saveWhitelistedDomains(newDomains);
+  }
+
+  /**
+   * Get a whitelisted domain entry.
+   */
+  async getWhitelistedDomain(domain: string): Promise<WhitelistedDomain | undefined> {
+    const domains = await this.getWhitelistedDomains();
+    return domains.find((d) => d.domain === domain);
+  }
+
+  /**
+   * Replace the whole whitelist (e.g. when restoring a backup).
+   */
+  async saveWhitelistedDomains(domains: WhitelistedDomain[]): Promise<void> {
+    await chrome.storage.local.set({ whitelistedDomains: domains });
+    if (this.cache) {
+      this.cache.whitelistedDomains = domains;
+    }
+  }
+
   /**
    * Check if a domain is whitelisted.
    */
@@ -102,6 +225,60 @@ export class StorageService {
     return domains.some((d) => d.domain === domain);
   }
 
+  /**
+   * Get spending and request budgets.
+   */
+  async getBudgets(): Promise<Budget[]> {
+    const data = await this.getAll();
+    return data.budgets;
+  }
+
+  /**
+   * Replace all budgets.
+   */
+  async saveBudgets(budgets: Budget[]): Promise<void> {
+    await chrome.storage.local.set({ budgets });
+    if (this.cache) {
+      this.cache.budgets = budgets;
+    }
+  }
+
+  /**
+   * Get budget consumption, keyed by budget id.
+   */
+  async getBudgetUsage(): Promise<Record<string, BudgetUsage>> {
+    const data = await this.getAll();
+    return data.budgetUsage;
+  }
+
+  /**
+   * Save budget consumption.
+   */
+  async saveBudgetUsage(budgetUsage: Record<string, BudgetUsage>): Promise<void> {
+    await chrome.storage.local.set({ budgetUsage });
+    if (this.cache) {
+      this.cache.budgetUsage = budgetUsage;
+    }
+  }
+
+  /**
+   * Get the user-defined providers.
+   */
+  async getCustomProviders(): Promise<CustomProvider[]> {
+    const data = await this.getAll();
+    return data.customProviders;
+  }
+
+  /**
+   * Replace all user-defined providers.
+   */
+  async saveCustomProviders(customProviders: CustomProvider[]): Promise<void> {
+    await chrome.storage.local.set({ customProviders });
+    if (this.cache) {
+      this.cache.customProviders = customProviders;
+    }
+  }
+
   /**
    * Get request history.
    */
@@ -130,6 +307,16 @@ export class StorageService {
     }
   }
 
+  /**
+   * Replace the whole request history (e.g. when restoring a backup).
+   */
+  async saveRequestHistory(history: RequestHistoryEntry[]): Promise<void> {
+    await chrome.storage.local.set({ requestHistory: history });
+    if (this.cache) {
+      this.cache.requestHistory = history;
+    }
+  }
+
   /**
    * Clear request history.
    */
@@ -180,6 +367,28 @@ export class StorageService {
     }
   }
 
+  /**
+   * Get the unlocked session state from chrome.storage.session.
+   */
+  async getSession(): Promise<SessionState> {
+    const result = await chrome.storage.session.get(['wrappedKey', 'lastActivity']);
+    return result as SessionState;
+  }
+
+  /**
+   * Save (part of) the unlocked session state.
+   */
+  async saveSession(session: Partial<SessionState>): Promise<void> {
+    await chrome.storage.session.set(session);
+  }
+
+  /**
+   * Clear the unlocked session state.
+   */
+  async clearSession(): Promise<void> {
+    await chrome.storage.session.clear();
+  }
+
   /**
    * Clear cache (useful after data changes from other contexts).
    */
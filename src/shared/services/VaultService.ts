@@ -1,8 +1,33 @@
 import { v4 as uuidv4 } from 'uuid';
 import { cryptoService } from './CryptoService';
 import { storageService } from './StorageService';
-import type { ApiKeyEntry, VaultData } from '../types/storage';
+import type {
+  ApiKeyEntry,
+  ApiKeySummary,
+  ImportConflictStrategy,
+  ImportMode,
+  ImportResult,
+  KdfDescriptor,
+  KeySettings,
+  KeyValidationResult,
+  UnlockResult,
+  VaultData,
+  WrappedKey,
+} from '../types/storage';
 import type { LlmProvider } from '../types/providers';
+import {
+  CURRENT_VAULT_VERSION,
+  DEFAULT_KDF,
+  LEGACY_KDF,
+  UNLOCK_BACKOFF_BASE_MS,
+  UNLOCK_BACKOFF_MAX_MS,
+  UNLOCK_FREE_ATTEMPTS,
+} from '../constants';
+
+// Outcome of a throttled password or recovery code check; blocked when it wasn't checked at all
+type SecretAttempt<T> =
+  | { ok: true; value: T }
+  | { ok: false; result: UnlockResult; blocked: boolean };
 
 /**
  * Service for managing the encrypted vault containing API keys.
@@ -10,6 +35,7 @@ import type { LlmProvider } from '../types/providers';
 export class VaultService {
   private decryptedKeys: ApiKeyEntry[] | null = null;
   private encryptionKey: Uint8Array | null = null;
+  private secretAttempts: Promise<unknown> = Promise.resolve(); // Serializes throttled checks
 
   /**
    * Check if vault exists (user has set up the extension).
@@ -20,20 +46,24 @@ export class VaultService {
 
   /**
    * Create a new vault with a master password.
+   * Returns a recovery code that can also unlock the vault; it is never stored.
    */
-  async create(password: string): Promise<void> {
+  async create(password: string): Promise<string> {
     if (await this.exists()) {
       throw new Error('Vault already exists');
     }
 
-    const { key, salt } = await cryptoService.deriveKey(password);
+    const dataKey = cryptoService.generateKey();
+    const recoveryCode = cryptoService.generateRecoveryCode();
     const emptyKeys: ApiKeyEntry[] = [];
     const data = JSON.stringify(emptyKeys);
-    const { ciphertext, iv } = await cryptoService.encrypt(data, key);
+    const { ciphertext, iv } = await cryptoService.encrypt(data, dataKey);
 
     const vault: VaultData = {
+      version: CURRENT_VAULT_VERSION,
+      passwordKey: await this.wrapKey(dataKey, password),
+      recoveryKey: await this.wrapKey(dataKey, cryptoService.normalizeRecoveryCode(recoveryCode)),
       encrypted: cryptoService.toBase64(ciphertext),
-      salt: cryptoService.toBase64(salt),
       iv: cryptoService.toBase64(iv),
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -41,28 +71,49 @@ export class VaultService {
 
     await storageService.saveVault(vault);
 
-    this.encryptionKey = key;
+    this.encryptionKey = dataKey;
     this.decryptedKeys = emptyKeys;
+
+    return recoveryCode;
   }
 
   /**
    * Unlock the vault with the master password.
+   * Failed attempts are throttled with an exponential backoff.
    */
-  async unlock(password: string): Promise<boolean> {
+  async unlock(password: string): Promise<UnlockResult> {
     const vault = await storageService.getVault();
     if (!vault) {
       throw new Error('Vault does not exist');
     }
 
-    try {
-      const salt = cryptoService.fromBase64(vault.salt);
-      const { key } = await cryptoService.deriveKey(password, salt);
+    const attempt = await this.attemptSecret(async () => {
+      const key = await this.getDataKey(vault, password);
+      return { key, keys: await this.decryptPayload(vault, key) };
+    });
+    if (!attempt.ok) return attempt.result;
+
+    this.encryptionKey = attempt.value.key;
+    this.decryptedKeys = attempt.value.keys;
+
+    // Transparently upgrade old vault formats now that we know the password
+    if (this.needsMigration(vault)) {
+      await this.migrate(vault, password);
+    }
 
-      const ciphertext = cryptoService.fromBase64(vault.encrypted);
-      const iv = cryptoService.fromBase64(vault.iv);
+    return { success: true };
+  }
+
+  /**
+   * Unlock the vault with an already derived encryption key
+   * (used to restore a persisted session after a worker restart).
+   */
+  async unlockWithKey(key: Uint8Array): Promise<boolean> {
+    const vault = await storageService.getVault();
+    if (!vault) return false;
 
-      const decrypted = await cryptoService.decrypt(ciphertext, key, iv);
-      const keys = JSON.parse(decrypted) as ApiKeyEntry[];
+    try {
+      const keys = await this.decryptPayload(vault, key);
 
       this.encryptionKey = key;
       this.decryptedKeys = keys;
@@ -73,6 +124,96 @@ export class VaultService {
     }
   }
 
+  /**
+   * Unlock the vault with the recovery code and set a new master password.
+   */
+  async recover(recoveryCode: string, newPassword: string): Promise<UnlockResult> {
+    const vault = await storageService.getVault();
+    if (!vault) {
+      throw new Error('Vault does not exist');
+    }
+    if (!vault.recoveryKey) {
+      throw new Error('No recovery code was set up for this vault');
+    }
+
+    const { recoveryKey } = vault;
+    const attempt = await this.attemptSecret(async () => {
+      const dataKey = await this.unwrapKey(
+        recoveryKey,
+        cryptoService.normalizeRecoveryCode(recoveryCode)
+      );
+      return { dataKey, keys: await this.decryptPayload(vault, dataKey) };
+    });
+    if (!attempt.ok) return attempt.result;
+    const { dataKey, keys } = attempt.value;
+
+    await storageService.saveVault({
+      ...vault,
+      passwordKey: await this.wrapKey(dataKey, newPassword),
+      updatedAt: Date.now(),
+    });
+
+    this.lock();
+    this.encryptionKey = dataKey;
+    this.decryptedKeys = keys;
+
+    return { success: true };
+  }
+
+  /**
+   * Get the current unlock lockout, if any.
+   */
+  async getLockedUntil(): Promise<number | undefined> {
+    const { lockedUntil } = await storageService.getUnlockAttempts();
+    return lockedUntil > Date.now() ? lockedUntil : undefined;
+  }
+
+  /**
+   * Generate a new recovery code for the vault, replacing any previous one.
+   * Requires the master password so an unattended unlocked vault can't be taken over.
+   */
+  async createRecoveryCode(password: string): Promise<string> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    await this.requirePassword(password);
+
+    const vault = await storageService.getVault();
+    if (!vault?.passwordKey) {
+      throw new Error('Vault must be unlocked once to upgrade it before adding a recovery code');
+    }
+
+    const recoveryCode = cryptoService.generateRecoveryCode();
+    await storageService.saveVault({
+      ...vault,
+      recoveryKey: await this.wrapKey(
+        this.encryptionKey!,
+        cryptoService.normalizeRecoveryCode(recoveryCode)
+      ),
+      updatedAt: Date.now(),
+    });
+
+    return recoveryCode;
+  }
+
+  /**
+   * Check if the vault has a recovery code.
+   */
+  async hasRecoveryCode(): Promise<boolean> {
+    const vault = await storageService.getVault();
+    return !!vault?.recoveryKey;
+  }
+
+  /**
+   * Get a copy of the current encryption key (must be unlocked).
+   */
+  getEncryptionKey(): Uint8Array {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    return new Uint8Array(this.encryptionKey!);
+  }
+
   /**
    * Lock the vault (clear decrypted data from memory).
    */
@@ -102,13 +243,56 @@ export class VaultService {
   }
 
   /**
-   * Get API key for a specific provider.
+   * Get all API keys without their secrets (must be unlocked).
+   */
+  listKeys(): ApiKeySummary[] {
+    return this.getKeys().map(({ apiKey, sessionToken: _sessionToken, ...rest }) => ({
+      ...rest,
+      keyHint: apiKey ? apiKey.slice(-4) : '',
+    }));
+  }
+
+  /**
+   * Get the default API key for a specific provider.
    */
   getKeyForProvider(provider: LlmProvider): ApiKeyEntry | undefined {
+    return this.getKeysForProvider(provider)[0];
+  }
+
+  /**
+   * Get all API keys for a provider, default key first.
+   */
+  getKeysForProvider(provider: LlmProvider): ApiKeyEntry[] {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    const keys = this.decryptedKeys!.filter((k) => k.provider === provider);
+    return [...keys.filter((k) => k.isDefault), ...keys.filter((k) => !k.isDefault)];
+  }
+
+  /**
+   * Get an API key by id.
+   */
+  getKeyById(id: string): ApiKeyEntry | undefined {
     if (!this.isUnlocked()) {
       throw new Error('Vault is locked');
     }
-    return this.decryptedKeys!.find((k) => k.provider === provider);
+    return this.decryptedKeys!.find((k) => k.id === id);
+  }
+
+  /**
+   * Make a key the default for its provider.
+   */
+  async setDefaultKey(id: string): Promise<boolean> {
+    const key = this.getKeyById(id);
+    if (!key) return false;
+
+    this.decryptedKeys = this.decryptedKeys!.map((k) =>
+      k.provider === key.provider ? { ...k, isDefault: k.id === id } : k
+    );
+    await this.saveVault();
+
+    return true;
   }
 
   /**
@@ -118,7 +302,7 @@ export class VaultService {
     provider: LlmProvider,
     name: string,
     apiKey: string,
-    endpointUrl?: string
+    settings: KeySettings = {}
   ): Promise<ApiKeyEntry> {
     if (!this.isUnlocked()) {
       throw new Error('Vault is locked');
@@ -129,17 +313,18 @@ export class VaultService {
       provider,
       name,
       apiKey,
-      endpointUrl,
+      ...settings,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
     this.decryptedKeys!.push(entry);
+    this.normalizeDefaults();
     await this.saveVault();
 
     // Save custom endpoint if provided
-    if (endpointUrl && provider === 'lm_studio') {
-      await storageService.saveCustomEndpoint(entry.id, endpointUrl);
+    if (settings.endpointUrl && provider === 'lm_studio') {
+      await storageService.saveCustomEndpoint(entry.id, settings.endpointUrl);
     }
 
     return entry;
@@ -150,7 +335,7 @@ export class VaultService {
    */
   async updateKey(
     id: string,
-    updates: Partial<Pick<ApiKeyEntry, 'name' | 'apiKey' | 'endpointUrl'>>
+    updates: Partial<Pick<ApiKeyEntry, 'name' | 'apiKey' | 'endpointUrl' | 'azure'>>
   ): Promise<ApiKeyEntry | undefined> {
     if (!this.isUnlocked()) {
       throw new Error('Vault is locked');
@@ -166,6 +351,12 @@ export class VaultService {
       updatedAt: Date.now(),
     };
 
+    // A new secret or endpoint invalidates the last health check
+    if (updates.apiKey !== undefined || updates.endpointUrl !== undefined) {
+      delete updated.lastValidatedAt;
+      delete updated.lastStatus;
+    }
+
     this.decryptedKeys![index] = updated;
     await this.saveVault();
 
@@ -177,6 +368,22 @@ export class VaultService {
     return updated;
   }
 
+  /**
+   * Store the outcome of a connection test on a key.
+   */
+  async recordValidation(id: string, result: KeyValidationResult): Promise<void> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+
+    const key = this.decryptedKeys!.find((k) => k.id === id);
+    if (!key) return;
+
+    key.lastValidatedAt = result.validatedAt;
+    key.lastStatus = result.status;
+    await this.saveVault();
+  }
+
   /**
    * Delete an API key.
    */
@@ -189,11 +396,110 @@ export class VaultService {
     if (index === -1) return false;
 
     this.decryptedKeys!.splice(index, 1);
+    this.normalizeDefaults();
     await this.saveVault();
 
     return true;
   }
 
+  /**
+   * Import API keys (e.g. from a backup) into the unlocked vault.
+   * In merge mode, keys with an existing id are resolved with the conflict strategy,
+   * and keys identical to an existing one (same provider, key and endpoint) are skipped.
+   */
+  async importKeys(
+    entries: ApiKeyEntry[],
+    mode: ImportMode,
+    strategy: ImportConflictStrategy
+  ): Promise<ImportResult> {
+    if (!this.isUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+
+    const result: ImportResult = { added: 0, updated: 0, skipped: 0 };
+
+    if (mode === 'replace') {
+      this.decryptedKeys = entries.map((entry) => ({ ...entry }));
+      result.added = entries.length;
+    } else {
+      for (const entry of entries) {
+        const index = this.decryptedKeys!.findIndex((k) => k.id === entry.id);
+        const isDuplicate = this.decryptedKeys!.some(
+          (k) =>
+            k.provider === entry.provider &&
+            k.apiKey === entry.apiKey &&
+            (k.endpointUrl ?? '') === (entry.endpointUrl ?? '')
+        );
+
+        if (index === -1) {
+          if (isDuplicate) {
+            result.skipped++;
+          } else {
+            this.decryptedKeys!.push({ ...entry });
+            result.added++;
+          }
+        } else if (strategy === 'overwrite') {
+          this.decryptedKeys![index] = { ...entry, updatedAt: Date.now() };
+          result.updated++;
+        } else if (strategy === 'keep_both' && !isDuplicate) {
+          this.decryptedKeys!.push({
+            ...entry,
+            id: uuidv4(),
+            name: `${entry.name} (imported)`,
+            updatedAt: Date.now(),
+          });
+          result.added++;
+        } else {
+          result.skipped++;
+        }
+      }
+    }
+
+    this.normalizeDefaults();
+    await this.saveVault();
+
+    for (const key of this.decryptedKeys!) {
+      if (key.endpointUrl && key.provider === 'lm_studio') {
+        await storageService.saveCustomEndpoint(key.id, key.endpointUrl);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Check the master password without changing the vault state, throwing if it is wrong
+   * or attempts are blocked. Failures count toward the unlock throttle.
+   */
+  async requirePassword(password: string): Promise<void> {
+    const vault = await storageService.getVault();
+    if (!vault) {
+      throw new Error('Vault does not exist');
+    }
+
+    const attempt = await this.attemptSecret(async () => {
+      const key = await this.getDataKey(vault, password);
+      await this.decryptPayload(vault, key);
+      cryptoService.zeroMemory(key);
+    });
+    if (attempt.ok) return;
+
+    const { lockedUntil, attemptsRemaining, wiped } = attempt.result;
+    if (wiped) {
+      throw new Error('The vault was erased after too many failed attempts');
+    }
+    if (attempt.blocked && lockedUntil) {
+      throw new Error(
+        `Too many failed attempts. Try again in ${Math.ceil((lockedUntil - Date.now()) / 1000)}s.`
+      );
+    }
+    throw new Error(
+      attemptsRemaining !== undefined
+        ? `Incorrect password. ${attemptsRemaining} attempt(s) left before the vault is erased.`
+        : 'Incorrect password'
+    );
+  }
+
   /**
    * Change the master password.
    */
@@ -202,41 +508,243 @@ export class VaultService {
     const vault = await storageService.getVault();
     if (!vault) return false;
 
-    try {
-      const oldSalt = cryptoService.fromBase64(vault.salt);
-      const { key: oldKey } = await cryptoService.deriveKey(oldPassword, oldSalt);
+    const attempt = await this.attemptSecret(async () => {
+      const dataKey = await this.getDataKey(vault, oldPassword);
+      return { dataKey, keys: await this.decryptPayload(vault, dataKey) };
+    });
+    if (!attempt.ok) return false;
+    const { keys } = attempt.value;
+    let { dataKey } = attempt.value;
+
+    // Only the wrapped data key changes, so the recovery code stays valid
+    let newVault: VaultData;
+    if (vault.passwordKey) {
+      newVault = {
+        ...vault,
+        passwordKey: await this.wrapKey(dataKey, newPassword),
+        updatedAt: Date.now(),
+      };
+    } else {
+      ({ vault: newVault, dataKey } = await this.upgradeLegacyVault(vault, keys, newPassword));
+    }
+
+    await storageService.saveVault(newVault);
+
+    // Update in-memory state
+    this.lock();
+    this.encryptionKey = dataKey;
+    this.decryptedKeys = keys;
+
+    return true;
+  }
+
+  /**
+   * Make sure every provider with keys has exactly one default key.
+   */
+  private normalizeDefaults(): void {
+    const seen = new Set<LlmProvider>();
+    const withDefault = new Set(
+      this.decryptedKeys!.filter((k) => k.isDefault).map((k) => k.provider)
+    );
+
+    this.decryptedKeys = this.decryptedKeys!.map((k) => {
+      const isDefault = withDefault.has(k.provider) ? !!k.isDefault : true;
+      if (!isDefault || seen.has(k.provider)) {
+        return { ...k, isDefault: false };
+      }
+      seen.add(k.provider);
+      return { ...k, isDefault: true };
+    });
+  }
 
-      const ciphertext = cryptoService.fromBase64(vault.encrypted);
-      const iv = cryptoService.fromBase64(vault.iv);
+  /**
+   * Check a password or recovery code through the unlock throttle; `check` throws when it
+   * is wrong. Checks run one at a time, so concurrent attempts can't all pass the throttle
+   * before the failures of earlier ones are recorded.
+   */
+  private attemptSecret<T>(check: () => Promise<T>): Promise<SecretAttempt<T>> {
+    const attempt = this.secretAttempts.then(async (): Promise<SecretAttempt<T>> => {
+      const throttled = await this.checkThrottle();
+      if (throttled) return { ok: false, result: throttled, blocked: true };
+
+      let value: T;
+      try {
+        value = await check();
+      } catch {
+        return { ok: false, result: await this.recordFailedAttempt(), blocked: false };
+      }
+      await this.resetFailedAttempts();
+      return { ok: true, value };
+    });
+    this.secretAttempts = attempt.catch(() => undefined);
+    return attempt;
+  }
 
-      const decrypted = await cryptoService.decrypt(ciphertext, oldKey, iv);
-      const keys = JSON.parse(decrypted) as ApiKeyEntry[];
+  /**
+   * Return a failed result if unlock attempts are currently blocked.
+   */
+  private async checkThrottle(): Promise<UnlockResult | null> {
+    const lockedUntil = await this.getLockedUntil();
+    return lockedUntil ? { success: false, lockedUntil } : null;
+  }
 
-      // Re-encrypt with new password
-      const { key: newKey, salt: newSalt } = await cryptoService.deriveKey(newPassword);
-      const data = JSON.stringify(keys);
-      const { ciphertext: newCiphertext, iv: newIv } = await cryptoService.encrypt(data, newKey);
+  /**
+   * Record a failed unlock attempt: back off, or wipe the vault if configured.
+   */
+  private async recordFailedAttempt(): Promise<UnlockResult> {
+    const settings = await storageService.getSettings();
+    const { failedCount: previous } = await storageService.getUnlockAttempts();
+    const failedCount = previous + 1;
+    const wipeEnabled = settings.wipeAfterMaxAttempts && settings.maxUnlockAttempts > 0;
+
+    if (wipeEnabled && failedCount >= settings.maxUnlockAttempts) {
+      this.lock();
+      await storageService.deleteVault();
+      await this.resetFailedAttempts();
+      return { success: false, wiped: true };
+    }
 
-      const newVault: VaultData = {
-        encrypted: cryptoService.toBase64(newCiphertext),
-        salt: cryptoService.toBase64(newSalt),
-        iv: cryptoService.toBase64(newIv),
+    const delayMs =
+      failedCount > UNLOCK_FREE_ATTEMPTS
+        ? Math.min(
+            UNLOCK_BACKOFF_BASE_MS * 2 ** (failedCount - UNLOCK_FREE_ATTEMPTS - 1),
+            UNLOCK_BACKOFF_MAX_MS
+          )
+        : 0;
+    const lockedUntil = delayMs > 0 ? Date.now() + delayMs : 0;
+    await storageService.saveUnlockAttempts({ failedCount, lockedUntil });
+
+    return {
+      success: false,
+      lockedUntil: lockedUntil || undefined,
+      attemptsRemaining: wipeEnabled ? settings.maxUnlockAttempts - failedCount : undefined,
+    };
+  }
+
+  private async resetFailedAttempts(): Promise<void> {
+    await storageService.saveUnlockAttempts({ failedCount: 0, lockedUntil: 0 });
+  }
+
+  /**
+   * Get the key that decrypts the vault payload from the master password.
+   * Versions 1-2 use the password-derived key directly; version 3 unwraps a data key.
+   */
+  private async getDataKey(vault: VaultData, password: string): Promise<Uint8Array> {
+    if (vault.passwordKey) {
+      return this.unwrapKey(vault.passwordKey, password);
+    }
+
+    const salt = cryptoService.fromBase64(vault.salt ?? '');
+    const { key } = await cryptoService.deriveKey(password, salt, vault.kdf ?? LEGACY_KDF);
+    return key;
+  }
+
+  /**
+   * Decrypt the vault payload with its data key (throws on a wrong key).
+   */
+  private async decryptPayload(vault: VaultData, key: Uint8Array): Promise<ApiKeyEntry[]> {
+    const ciphertext = cryptoService.fromBase64(vault.encrypted);
+    const iv = cryptoService.fromBase64(vault.iv);
+    const decrypted = await cryptoService.decrypt(ciphertext, key, iv);
+    return JSON.parse(decrypted) as ApiKeyEntry[];
+  }
+
+  /**
+   * Encrypt a data key with a key derived from a secret, using the default KDF.
+   */
+  private async wrapKey(dataKey: Uint8Array, secret: string): Promise<WrappedKey> {
+    const { key, salt } = await cryptoService.deriveKey(secret, undefined, DEFAULT_KDF);
+    const { ciphertext, iv } = await cryptoService.encrypt(cryptoService.toBase64(dataKey), key);
+    cryptoService.zeroMemory(key);
+
+    return {
+      kdf: DEFAULT_KDF,
+      salt: cryptoService.toBase64(salt),
+      wrapped: cryptoService.toBase64(ciphertext),
+      iv: cryptoService.toBase64(iv),
+    };
+  }
+
+  /**
+   * Decrypt a wrapped data key (throws on a wrong secret).
+   */
+  private async unwrapKey(wrappedKey: WrappedKey, secret: string): Promise<Uint8Array> {
+    const { key } = await cryptoService.deriveKey(
+      secret,
+      cryptoService.fromBase64(wrappedKey.salt),
+      wrappedKey.kdf
+    );
+    try {
+      const dataKey = await cryptoService.decrypt(
+        cryptoService.fromBase64(wrappedKey.wrapped),
+        key,
+        cryptoService.fromBase64(wrappedKey.iv)
+      );
+      return cryptoService.fromBase64(dataKey);
+    } finally {
+      cryptoService.zeroMemory(key);
+    }
+  }
+
+  /**
+   * Check if a vault uses an old format or KDF parameters.
+   */
+  private needsMigration(vault: VaultData): boolean {
+    const kdf: KdfDescriptor | undefined = vault.passwordKey?.kdf;
+    return (
+      (vault.version ?? 1) < CURRENT_VAULT_VERSION ||
+      JSON.stringify(kdf) !== JSON.stringify(DEFAULT_KDF)
+    );
+  }
+
+  /**
+   * Convert a version 1-2 vault to the data key format.
+   */
+  private async upgradeLegacyVault(
+    vault: VaultData,
+    keys: ApiKeyEntry[],
+    password: string
+  ): Promise<{ vault: VaultData; dataKey: Uint8Array }> {
+    const dataKey = cryptoService.generateKey();
+    const { ciphertext, iv } = await cryptoService.encrypt(JSON.stringify(keys), dataKey);
+
+    return {
+      dataKey,
+      vault: {
+        version: CURRENT_VAULT_VERSION,
+        passwordKey: await this.wrapKey(dataKey, password),
+        encrypted: cryptoService.toBase64(ciphertext),
+        iv: cryptoService.toBase64(iv),
         createdAt: vault.createdAt,
         updatedAt: Date.now(),
-      };
-
-      await storageService.saveVault(newVault);
+      },
+    };
+  }
 
-      // Update in-memory state
-      if (this.encryptionKey) {
-        cryptoService.zeroMemory(this.encryptionKey);
+  /**
+   * Upgrade the unlocked vault to the current format and default KDF.
+   * A failed migration leaves the old (still valid) vault in place.
+   */
+  private async migrate(vault: VaultData, password: string): Promise<void> {
+    try {
+      if (vault.passwordKey) {
+        // Only the password wrapping is outdated; the data key stays the same
+        await storageService.saveVault({
+          ...vault,
+          version: CURRENT_VAULT_VERSION,
+          passwordKey: await this.wrapKey(this.encryptionKey!, password),
+          updatedAt: Date.now(),
+        });
+        return;
       }
-      this.encryptionKey = newKey;
-      this.decryptedKeys = keys;
 
-      return true;
-    } catch {
-      return false;
+      const upgraded = await this.upgradeLegacyVault(vault, this.decryptedKeys!, password);
+      await storageService.saveVault(upgraded.vault);
+
+      cryptoService.zeroMemory(this.encryptionKey!);
+      this.encryptionKey = upgraded.dataKey;
+    } catch (error) {
+      console.error('Vault migration failed:', error);
     }
   }
 
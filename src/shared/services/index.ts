@@ -2,3 +2,4 @@ export { cryptoService, CryptoService } from './CryptoService';
 export { storageService, StorageService } from './StorageService';
 export { vaultService, VaultService } from './VaultService';
 export { sessionService, SessionService } from './SessionService';
+export { backupService, BackupService } from './BackupService';
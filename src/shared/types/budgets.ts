@@ -0,0 +1,87 @@
+import { getProviderById, type CustomProvider, type LlmProvider } from './providers';
+import { formatCost } from './pricing';
+
+export type BudgetPeriod = 'hour' | 'day' | 'week' | 'month';
+
+// What a budget limits: estimated spend in USD, or the number of requests
+export type BudgetMetric = 'cost' | 'requests';
+
+// Spending or request limit for a domain and/or provider, reset every period.
+// A missing domain or provider applies the budget to all of them combined.
+export interface Budget {
+  id: string;
+  domain?: string;
+  provider?: LlmProvider;
+  metric: BudgetMetric;
+  limit: number;
+  period: BudgetPeriod;
+  createdAt: number;
+}
+
+// Consumption of one budget in its current period
+export interface BudgetUsage {
+  periodStart: number;
+  requests: number;
+  cost: number; // USD
+}
+
+/**
+ * Calendar period containing a timestamp (local time; weeks start on Monday).
+ */
+export function getBudgetWindow(
+  period: BudgetPeriod,
+  now = Date.now()
+): { start: number; resetAt: number } {
+  const start = new Date(now);
+  start.setMinutes(0, 0, 0);
+  if (period !== 'hour') start.setHours(0);
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === 'month') start.setDate(1);
+
+  const resetAt = new Date(start);
+  if (period === 'hour') resetAt.setHours(resetAt.getHours() + 1);
+  if (period === 'day') resetAt.setDate(resetAt.getDate() + 1);
+  if (period === 'week') resetAt.setDate(resetAt.getDate() + 7);
+  if (period === 'month') resetAt.setMonth(resetAt.getMonth() + 1);
+
+  return { start: start.getTime(), resetAt: resetAt.getTime() };
+}
+
+/**
+ * Usage of a budget in the current period; stale usage from an earlier period counts as zero.
+ */
+export function getCurrentUsage(
+  budget: Budget,
+  usage: BudgetUsage | undefined,
+  now = Date.now()
+): BudgetUsage {
+  const { start } = getBudgetWindow(budget.period, now);
+  return usage?.periodStart === start ? usage : { periodStart: start, requests: 0, cost: 0 };
+}
+
+/**
+ * Whether a budget covers requests from a domain to a provider.
+ */
+export function budgetApplies(budget: Budget, domain: string, provider: LlmProvider): boolean {
+  return (
+    (!budget.domain || budget.domain === domain) &&
+    (!budget.provider || budget.provider === provider)
+  );
+}
+
+/**
+ * Human-readable amount, e.g. "$5.00" or "200 requests".
+ */
+export function formatBudgetAmount(metric: BudgetMetric, amount: number): string {
+  return metric === 'cost' ? formatCost(amount) : `${amount} ${amount === 1 ? 'request' : 'requests'}`;
+}
+
+/**
+ * Human-readable scope, e.g. "OpenAI on example.com".
+ */
+export function describeBudgetScope(budget: Budget, customProviders: CustomProvider[] = []): string {
+  const provider = budget.provider
+    ? (getProviderById(budget.provider, customProviders)?.name ?? budget.provider)
+    : 'All providers';
+  return budget.domain ? `${provider} on ${budget.domain}` : `${provider} on all sites`;
+}
@@ -14,10 +14,39 @@ export const MESSAGE_TYPE = {
   STREAM_CHUNK: 'TINYLOCKET_STREAM_CHUNK',
   GET_PROVIDERS: 'TINYLOCKET_GET_PROVIDERS',
   GET_STATUS: 'TINYLOCKET_GET_STATUS',
+  CANCEL: 'TINYLOCKET_CANCEL',
 } as const;
 
 export type MessageType = (typeof MESSAGE_TYPE)[keyof typeof MESSAGE_TYPE];
 
+// Streaming requests run over a dedicated port per request (content script <-> background)
+export const STREAM_PORT_NAME = 'TINYLOCKET_STREAM';
+
+export const STREAM_MESSAGE_TYPE = {
+  ACK: 'TINYLOCKET_STREAM_ACK',
+  CANCEL: 'TINYLOCKET_STREAM_CANCEL',
+} as const;
+
+// Vault messages (popup -> background). Only accepted from extension pages.
+export const VAULT_MESSAGE_TYPE = {
+  GET_STATE: 'TINYLOCKET_VAULT_GET_STATE',
+  CREATE: 'TINYLOCKET_VAULT_CREATE',
+  UNLOCK: 'TINYLOCKET_VAULT_UNLOCK',
+  RECOVER: 'TINYLOCKET_VAULT_RECOVER',
+  CREATE_RECOVERY_CODE: 'TINYLOCKET_VAULT_CREATE_RECOVERY_CODE',
+  LOCK: 'TINYLOCKET_VAULT_LOCK',
+  LIST_KEYS: 'TINYLOCKET_VAULT_LIST_KEYS',
+  ADD_KEY: 'TINYLOCKET_VAULT_ADD_KEY',
+  UPDATE_KEY: 'TINYLOCKET_VAULT_UPDATE_KEY',
+  DELETE_KEY: 'TINYLOCKET_VAULT_DELETE_KEY',
+  SET_DEFAULT_KEY: 'TINYLOCKET_VAULT_SET_DEFAULT_KEY',
+  TEST_KEY: 'TINYLOCKET_VAULT_TEST_KEY',
+  EXPORT_BACKUP: 'TINYLOCKET_VAULT_EXPORT_BACKUP',
+  IMPORT_BACKUP: 'TINYLOCKET_VAULT_IMPORT_BACKUP',
+} as const;
+
+export type VaultMessageType = (typeof VAULT_MESSAGE_TYPE)[keyof typeof VAULT_MESSAGE_TYPE];
+
 // Request from web app to extension
 export interface TinylocketRequest {
   type: typeof MESSAGE_TYPE.REQUEST;
@@ -27,12 +56,47 @@ export interface TinylocketRequest {
     endpoint: string;
     method: 'GET' | 'POST' | 'PUT' | 'DELETE';
     headers?: Record<string, string>;
-    body?: unknown;
+    body?: unknown; // Sent as JSON
+    rawBody?: RequestBodyEnvelope | RequestBodyEnvelope<EncodedPart>; // Instead of body
     stream?: boolean;
-    endpointUrl?: string; // For lm_studio
+    keyId?: string; // Opaque key id from getProviders(); defaults to the provider's default key
+    timeoutMs?: number; // Enforced by the background; the provider request is aborted on expiry
+    retry?: boolean | { maxAttempts?: number; maxDelayMs?: number }; // Opt-in retry on 429/5xx
+    format?: StreamFormat; // Streaming only; 'sse' delivers parsed events
+    responseType?: ResponseType; // Non-streaming only; defaults from the response content type
   };
 }
 
+// Binary data in a request body. The page posts Blobs and ArrayBuffers (structured
+// clone); the content script base64-encodes them for the JSON-only runtime messaging.
+export type BodyPart = Blob | ArrayBuffer;
+
+export interface EncodedPart {
+  base64: string;
+  contentType: string; // The Blob's type, or '' for an ArrayBuffer
+}
+
+export interface MultipartField<P = BodyPart> {
+  name: string;
+  value: string | P;
+  filename?: string; // For file parts; defaults to 'blob'
+}
+
+// A non-JSON request body, rebuilt into FormData or a binary body by the background
+export type RequestBodyEnvelope<P = BodyPart> =
+  | { kind: 'multipart'; fields: MultipartField<P>[] }
+  | { kind: 'binary'; data: P; contentType: string };
+
+// How a response body is delivered to the page
+export type ResponseType = 'json' | 'text' | 'arrayBuffer' | 'blob';
+
+// A binary response body, base64-encoded in slices so no single string has to hold
+// a large body; the page decodes it into an ArrayBuffer or Blob
+export interface EncodedBody {
+  chunks: string[];
+  contentType: string;
+}
+
 // Response from extension to web app
 export interface TinylocketResponse {
   type: typeof MESSAGE_TYPE.RESPONSE;
@@ -41,11 +105,14 @@ export interface TinylocketResponse {
   error?: {
     code: TinylocketErrorCode;
     message: string;
+    retryAfterMs?: number; // Set with RATE_LIMITED
   };
   data?: {
     status: number;
     headers: Record<string, string>;
     body: unknown;
+    bodyEncoding?: 'base64'; // body is an EncodedBody
+    droppedHeaders?: string[]; // Page headers the provider's header policy removed
   };
 }
 
@@ -57,13 +124,47 @@ export interface TinylocketStreamChunk {
   done: boolean;
 }
 
+// How a streaming response is delivered: raw text slices, or parsed events
+export type StreamFormat = 'text' | 'sse';
+
+// A complete streamed event; data is JSON-decoded when possible
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+  id?: string;
+}
+
+// Streaming chunk on a stream port; acked by seq so the background can apply backpressure
+export interface StreamPortChunk {
+  type: typeof MESSAGE_TYPE.STREAM_CHUNK;
+  requestId: string;
+  seq: number;
+  chunk: string;
+  event?: StreamEvent; // Set instead of chunk for the 'sse' format
+  done: boolean;
+}
+
+export interface StreamPortAck {
+  type: typeof STREAM_MESSAGE_TYPE.ACK;
+  seq: number;
+}
+
+export interface StreamPortCancel {
+  type: typeof STREAM_MESSAGE_TYPE.CANCEL;
+}
+
 export type TinylocketErrorCode =
   | 'NOT_INSTALLED'
   | 'CONNECTION_REFUSED'
   | 'LOCKED'
   | 'DOMAIN_NOT_ALLOWED'
+  | 'ENDPOINT_NOT_ALLOWED'
   | 'NO_KEY'
+  | 'BUDGET_EXCEEDED'
+  | 'RATE_LIMITED'
   | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'PROVIDER_ERROR' // Non-2xx provider response, raised by stream() and chat()
   | 'NETWORK_ERROR'
   | 'INVALID_REQUEST';
 
@@ -74,11 +175,27 @@ export interface TinylocketStatus {
   version: string;
 }
 
+// Key info for web apps (never includes the secret)
+export interface KeyInfo {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
 // Provider info for web apps
 export interface ProviderInfo {
   id: LlmProvider;
   name: string;
   hasKey: boolean;
+  keys: KeyInfo[];
+}
+
+// Vault state reported to the popup
+export interface VaultState {
+  hasVault: boolean;
+  isUnlocked: boolean;
+  hasRecoveryCode: boolean;
+  lockedUntil?: number; // Set while unlock attempts are blocked after failures
 }
 
 // Internal messages (content script <-> background)
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { estimateCost, findModelPrice } from './pricing';
+
+test('Bedrock ids are priced without their region and vendor prefixes', () => {
+  const haiku = findModelPrice('bedrock', 'claude-3-5-haiku-20241022');
+  assert.ok(haiku);
+  assert.equal(findModelPrice('bedrock', 'anthropic.claude-3-5-haiku-20241022-v1:0'), haiku);
+  assert.equal(findModelPrice('bedrock', 'us.anthropic.claude-3-5-haiku-20241022-v1:0'), haiku);
+  assert.equal(
+    findModelPrice('bedrock', 'eu.anthropic.claude-sonnet-4-20250514-v1:0'),
+    findModelPrice('bedrock', 'claude-sonnet-4')
+  );
+  assert.equal(
+    findModelPrice('bedrock', 'us.amazon.nova-lite-v1:0'),
+    findModelPrice('bedrock', 'nova-lite')
+  );
+});
+
+test('prefixed Bedrock ids get a cost', () => {
+  const cost = estimateCost({
+    provider: 'bedrock',
+    model: 'us.anthropic.claude-sonnet-4-20250514-v1:0',
+    inputTokens: 1_000_000,
+    outputTokens: 1_000_000,
+  });
+  assert.equal(cost, 18);
+});
+
+test('overrides match Bedrock ids with or without prefixes', () => {
+  const override = {
+    provider: 'bedrock' as const,
+    model: 'us.anthropic.claude-3-haiku',
+    input: 1,
+    output: 2,
+  };
+  assert.equal(
+    findModelPrice('bedrock', 'anthropic.claude-3-haiku-20240307-v1:0', [override]),
+    override
+  );
+});
+
+test('other providers keep their model names', () => {
+  assert.equal(findModelPrice('openai', 'anthropic.claude-3-5-haiku'), undefined);
+  assert.ok(findModelPrice('gemini', 'models/gemini-2.5-flash'));
+});
@@ -0,0 +1,213 @@
+import type { LlmProvider } from './providers';
+
+// USD per million tokens. Cached input falls back to the input rate when not set.
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cached?: number;
+}
+
+// User-set price for a provider/model, taking precedence over MODEL_PRICES
+export interface PriceOverride extends ModelPrice {
+  provider: LlmProvider;
+  model: string; // Matched like MODEL_PRICES keys: exact name or dated/variant prefix
+}
+
+// Token counts a cost is estimated from. cachedTokens is included in inputTokens.
+export interface PricedUsage {
+  provider: LlmProvider;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+}
+
+// OpenAI models, also served by Azure OpenAI
+const OPENAI_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10, cached: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cached: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cached: 0.005 },
+  'gpt-4.1': { input: 2, output: 8, cached: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cached: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cached: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cached: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cached: 0.075 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60, cached: 7.5 },
+  o3: { input: 2, output: 8, cached: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cached: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cached: 0.275 },
+};
+
+/**
+ * List prices per provider and model. Keys match model ids exactly or as a prefix
+ * of dated/variant ids (e.g. 'gpt-4o' matches 'gpt-4o-2024-08-06'); the longest
+ * matching key wins. '*' prices every model of a provider.
+ */
+export const MODEL_PRICES: Record<LlmProvider, Record<string, ModelPrice>> = {
+  openai: OPENAI_PRICES,
+  anthropic: {
+    'claude-opus-4': { input: 15, output: 75, cached: 1.5 },
+    'claude-opus-4-5': { input: 5, output: 25, cached: 0.5 },
+    'claude-sonnet-4': { input: 3, output: 15, cached: 0.3 },
+    'claude-haiku-4-5': { input: 1, output: 5, cached: 0.1 },
+    'claude-3-7-sonnet': { input: 3, output: 15, cached: 0.3 },
+    'claude-3-5-sonnet': { input: 3, output: 15, cached: 0.3 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cached: 0.08 },
+    'claude-3-opus': { input: 15, output: 75, cached: 1.5 },
+    'claude-3-haiku': { input: 0.25, output: 1.25, cached: 0.03 },
+  },
+  gemini: {
+    'gemini-2.5-pro': { input: 1.25, output: 10, cached: 0.31 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5, cached: 0.075 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cached: 0.025 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4, cached: 0.025 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  },
+  mistral: {
+    'mistral-large': { input: 2, output: 6 },
+    'mistral-medium': { input: 0.4, output: 2 },
+    'mistral-small': { input: 0.1, output: 0.3 },
+    codestral: { input: 0.3, output: 0.9 },
+    'open-mistral-nemo': { input: 0.15, output: 0.15 },
+    'ministral-8b': { input: 0.1, output: 0.1 },
+    'ministral-3b': { input: 0.04, output: 0.04 },
+  },
+  cohere: {
+    'command-a': { input: 2.5, output: 10 },
+    'command-r-plus': { input: 2.5, output: 10 },
+    'command-r': { input: 0.15, output: 0.6 },
+    'command-r7b': { input: 0.0375, output: 0.15 },
+  },
+  groq: {
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  },
+  xai: {
+    'grok-4': { input: 3, output: 15, cached: 0.75 },
+    'grok-3': { input: 3, output: 15, cached: 0.75 },
+    'grok-3-mini': { input: 0.3, output: 0.5, cached: 0.075 },
+  },
+  deepseek: {
+    'deepseek-chat': { input: 0.27, output: 1.1, cached: 0.07 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19, cached: 0.14 },
+  },
+  perplexity: {
+    sonar: { input: 1, output: 1 },
+    'sonar-pro': { input: 3, output: 15 },
+    'sonar-reasoning': { input: 1, output: 5 },
+    'sonar-reasoning-pro': { input: 2, output: 8 },
+  },
+  together: {
+    'meta-llama/Llama-3.3-70B-Instruct-Turbo': { input: 0.88, output: 0.88 },
+    'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo': { input: 0.18, output: 0.18 },
+  },
+  azure_openai: OPENAI_PRICES, // Global deployments are billed at OpenAI's list prices
+  bedrock: {
+    // Keyed without the region and vendor prefixes of Bedrock model ids (see normalizeModelId)
+    'claude-opus-4': { input: 15, output: 75, cached: 1.5 },
+    'claude-sonnet-4': { input: 3, output: 15, cached: 0.3 },
+    'claude-3-7-sonnet': { input: 3, output: 15, cached: 0.3 },
+    'claude-3-5-sonnet': { input: 3, output: 15, cached: 0.3 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cached: 0.08 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'nova-pro': { input: 0.8, output: 3.2 },
+    'nova-lite': { input: 0.06, output: 0.24 },
+    'nova-micro': { input: 0.035, output: 0.14 },
+    'llama3-3-70b-instruct': { input: 0.72, output: 0.72 },
+  },
+  lm_studio: {
+    '*': { input: 0, output: 0 }, // Local models
+  },
+};
+
+/**
+ * Find the price of a model, preferring the user's overrides over the built-in list.
+ */
+export function findModelPrice(
+  provider: LlmProvider,
+  model: string | undefined,
+  overrides: PriceOverride[] = []
+): ModelPrice | undefined {
+  const own: Record<string, ModelPrice> = {};
+  for (const override of overrides) {
+    if (override.provider === provider) own[override.model] = override;
+  }
+  return (
+    matchPrice(provider, own, model) ?? matchPrice(provider, MODEL_PRICES[provider] ?? {}, model)
+  );
+}
+
+/**
+ * Estimated cost in USD, or undefined when the model or its token counts are unknown.
+ */
+export function estimateCost(
+  usage: PricedUsage,
+  overrides: PriceOverride[] = []
+): number | undefined {
+  if (usage.inputTokens === undefined && usage.outputTokens === undefined) return undefined;
+
+  const price = findModelPrice(usage.provider, usage.model, overrides);
+  if (!price) return undefined;
+
+  const input = usage.inputTokens ?? 0;
+  const cached = Math.min(usage.cachedTokens ?? 0, input);
+  const output = usage.outputTokens ?? 0;
+  return (
+    ((input - cached) * price.input +
+      cached * (price.cached ?? price.input) +
+      output * price.output) /
+    1_000_000
+  );
+}
+
+// Cross-region inference profile (us., eu., apac., ...) and vendor prefixes of Bedrock model ids
+const BEDROCK_PREFIX =
+  /^(?:(?:us|us-gov|eu|apac|jp|au|ca|global)\.)?(?:anthropic|amazon|meta|mistral|cohere|ai21|deepseek)\./;
+
+/**
+ * Lowercase a model name and drop the prefixes that don't affect its price: Gemini's
+ * 'models/', and the region and vendor of Bedrock ids (us.anthropic.claude-... is claude-...).
+ */
+function normalizeModelId(provider: LlmProvider, model: string): string {
+  const id = model.toLowerCase().replace(/^models\//, '');
+  return provider === 'bedrock' ? id.replace(BEDROCK_PREFIX, '') : id;
+}
+
+/**
+ * Longest key equal to the model or a prefix of it ending at a '-', '@' or ':' boundary.
+ * Both are normalized first, so overrides may name a model with or without its prefixes.
+ */
+function matchPrice(
+  provider: LlmProvider,
+  prices: Record<string, ModelPrice>,
+  model: string | undefined
+): ModelPrice | undefined {
+  const id = model && normalizeModelId(provider, model);
+  let best: string | undefined;
+  let bestLength = 0;
+
+  if (id) {
+    for (const key of Object.keys(prices)) {
+      const candidate = normalizeModelId(provider, key);
+      const matches =
+        id === candidate || (id.startsWith(candidate) && /[-@:]/.test(id[candidate.length]));
+      if (matches && (!best || candidate.length > bestLength)) {
+        best = key;
+        bestLength = candidate.length;
+      }
+    }
+  }
+
+  return best ? prices[best] : prices['*'];
+}
+
+/**
+ * Format a USD amount, keeping precision for the sub-cent costs of single requests.
+ */
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
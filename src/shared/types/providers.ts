@@ -1,4 +1,4 @@
-export type LlmProvider =
+export type BuiltInProvider =
   | 'openai'
   | 'anthropic'
   | 'gemini'
@@ -9,8 +9,21 @@ export type LlmProvider =
   | 'deepseek'
   | 'perplexity'
   | 'together'
+  | 'azure_openai'
+  | 'bedrock'
   | 'lm_studio';
 
+// User-defined providers are namespaced so they can never shadow a built-in one
+export type CustomProviderId = `custom:${string}`;
+
+export type LlmProvider = BuiltInProvider | CustomProviderId;
+
+// Wire format of a provider's chat API, used by the tinylocket.chat facade
+export type ChatApi = 'openai' | 'anthropic' | 'bedrock_anthropic' | 'gemini' | 'cohere';
+
+// Providers whose URLs are built per key rather than from baseUrl + endpoint
+export type ProviderType = 'azure_openai' | 'bedrock';
+
 export interface ProviderConfig {
   id: LlmProvider;
   name: string;
@@ -18,9 +31,75 @@ export interface ProviderConfig {
   authHeader: string;
   authPrefix: string;
   testEndpoint: string;
+  // For providers with no read-only listing: the test POSTs an empty JSON body, which
+  // fails validation (400/422) without any usage once the key is accepted
+  testMethod?: 'POST';
+  chatApi: ChatApi;
+  chatEndpoint: string; // '{model}' is replaced with the requested model
+  allowedEndpoints: EndpointPattern[]; // What pages may call; domains can allow more
+  headerPolicy: HeaderPolicy;
   requiresEndpointUrl: boolean;
+  type?: ProviderType; // Omitted for providers reached at baseUrl + endpoint
 }
 
+// OpenAI-compatible provider defined in the popup (OpenRouter, vLLM, a corporate gateway...)
+export interface CustomProvider {
+  id: CustomProviderId;
+  name: string;
+  baseUrl: string; // No trailing slash; endpoints are appended to it
+  authHeader: string;
+  authPrefix: string;
+  headers: Record<string, string>; // Static headers sent with every request; names are lowercase
+  testEndpoint: string;
+  createdAt: number;
+}
+
+// Which page-supplied headers reach the provider. Names are lowercase and matched
+// case-insensitively; anything not allowed is dropped.
+export interface HeaderPolicy {
+  allowed: string[];
+  forced: Record<string, string>; // Always sent with these values, whatever the page sends
+  stripped: string[]; // Never passed through, even if allowed
+}
+
+// Credentials, browser-controlled headers and account-scoping headers pages must not set
+const STRIPPED_HEADERS = [
+  'authorization',
+  'x-api-key',
+  'api-key',
+  'x-goog-api-key',
+  'cookie',
+  'host',
+  'origin',
+  'referer',
+  'proxy-authorization',
+  'openai-organization',
+  'openai-project',
+  'anthropic-dangerous-direct-browser-access',
+];
+
+/**
+ * Header policy allowing content negotiation plus a provider's own headers.
+ */
+function createHeaderPolicy(
+  allowed: string[] = [],
+  forced: Record<string, string> = {}
+): HeaderPolicy {
+  return { allowed: ['content-type', 'accept', ...allowed], forced, stripped: STRIPPED_HEADERS };
+}
+
+// "METHOD /path" ('*' for any method). In the path '*' matches one segment, '**' the rest.
+export type EndpointPattern = string;
+
+// Inference endpoints shared by OpenAI-compatible APIs
+const OPENAI_COMPATIBLE_ENDPOINTS: EndpointPattern[] = [
+  'POST /v1/chat/completions',
+  'POST /v1/completions',
+  'POST /v1/embeddings',
+  'GET /v1/models',
+  'GET /v1/models/*',
+];
+
 export const PROVIDERS: ProviderConfig[] = [
   {
     id: 'openai',
@@ -29,6 +108,18 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: [
+      ...OPENAI_COMPATIBLE_ENDPOINTS,
+      'POST /v1/responses',
+      'POST /v1/moderations',
+      'POST /v1/images/generations',
+      'POST /v1/audio/speech',
+      'POST /v1/audio/transcriptions',
+      'POST /v1/audio/translations',
+    ],
+    headerPolicy: createHeaderPolicy(['openai-beta']),
     requiresEndpointUrl: false,
   },
   {
@@ -37,7 +128,16 @@ export const PROVIDERS: ProviderConfig[] = [
     baseUrl: 'https://api.anthropic.com',
     authHeader: 'x-api-key',
     authPrefix: '',
-    testEndpoint: '/v1/messages',
+    testEndpoint: '/v1/models',
+    chatApi: 'anthropic',
+    chatEndpoint: '/v1/messages',
+    allowedEndpoints: [
+      'POST /v1/messages',
+      'POST /v1/messages/count_tokens',
+      'GET /v1/models',
+      'GET /v1/models/*',
+    ],
+    headerPolicy: createHeaderPolicy(['anthropic-beta'], { 'anthropic-version': '2023-06-01' }),
     requiresEndpointUrl: false,
   },
   {
@@ -47,6 +147,17 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'x-goog-api-key',
     authPrefix: '',
     testEndpoint: '/v1/models',
+    chatApi: 'gemini',
+    chatEndpoint: '/v1beta/models/{model}:generateContent',
+    allowedEndpoints: [
+      'POST /v1beta/models/*', // generateContent, streamGenerateContent, countTokens, embedContent
+      'POST /v1/models/*',
+      'GET /v1beta/models',
+      'GET /v1beta/models/*',
+      'GET /v1/models',
+      'GET /v1/models/*',
+    ],
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: false,
   },
   {
@@ -56,6 +167,10 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: [...OPENAI_COMPATIBLE_ENDPOINTS, 'POST /v1/fim/completions'],
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: false,
   },
   {
@@ -65,6 +180,18 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'cohere',
+    chatEndpoint: '/v2/chat',
+    allowedEndpoints: [
+      'POST /v1/chat',
+      'POST /v2/chat',
+      'POST /v1/embed',
+      'POST /v2/embed',
+      'POST /v1/rerank',
+      'POST /v2/rerank',
+      'GET /v1/models',
+    ],
+    headerPolicy: createHeaderPolicy(['x-client-name']),
     requiresEndpointUrl: false,
   },
   {
@@ -74,6 +201,14 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: [
+      ...OPENAI_COMPATIBLE_ENDPOINTS,
+      'POST /v1/audio/transcriptions',
+      'POST /v1/audio/translations',
+    ],
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: false,
   },
   {
@@ -83,6 +218,10 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: OPENAI_COMPATIBLE_ENDPOINTS,
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: false,
   },
   {
@@ -92,6 +231,10 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: [...OPENAI_COMPATIBLE_ENDPOINTS, 'POST /chat/completions', 'GET /models'],
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: false,
   },
   {
@@ -101,6 +244,11 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/chat/completions',
+    testMethod: 'POST',
+    chatApi: 'openai',
+    chatEndpoint: '/chat/completions',
+    allowedEndpoints: ['POST /chat/completions'],
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: false,
   },
   {
@@ -110,7 +258,58 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: [
+      ...OPENAI_COMPATIBLE_ENDPOINTS,
+      'POST /v1/images/generations',
+      'POST /v1/rerank',
+    ],
+    headerPolicy: createHeaderPolicy(),
+    requiresEndpointUrl: false,
+  },
+  {
+    id: 'azure_openai',
+    name: 'Azure OpenAI',
+    baseUrl: '', // The key's resource endpoint
+    authHeader: 'api-key',
+    authPrefix: '',
+    testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    // OpenAI-style paths, rewritten to the deployment serving the requested model
+    allowedEndpoints: [
+      'POST /v1/chat/completions',
+      'POST /v1/completions',
+      'POST /v1/embeddings',
+      'POST /v1/images/generations',
+      'POST /v1/audio/speech',
+      'POST /v1/audio/transcriptions',
+      'POST /v1/audio/translations',
+      'GET /v1/models',
+    ],
+    headerPolicy: createHeaderPolicy(),
+    requiresEndpointUrl: true,
+    type: 'azure_openai',
+  },
+  {
+    id: 'bedrock',
+    name: 'AWS Bedrock',
+    baseUrl: '', // bedrock-runtime in the key's region
+    authHeader: 'authorization', // SigV4 signature; keys are never sent as-is
+    authPrefix: '',
+    testEndpoint: '/foundation-models', // On the bedrock control plane
+    chatApi: 'bedrock_anthropic',
+    chatEndpoint: '/model/{model}/invoke',
+    allowedEndpoints: ['POST /model/*/invoke', 'POST /model/*/invoke-with-response-stream'],
+    headerPolicy: createHeaderPolicy([
+      'x-amzn-bedrock-guardrailidentifier',
+      'x-amzn-bedrock-guardrailversion',
+      'x-amzn-bedrock-trace',
+      'x-amzn-bedrock-performanceconfig-latency',
+    ]),
     requiresEndpointUrl: false,
+    type: 'bedrock',
   },
   {
     id: 'lm_studio',
@@ -119,10 +318,116 @@ export const PROVIDERS: ProviderConfig[] = [
     authHeader: 'Authorization',
     authPrefix: 'Bearer ',
     testEndpoint: '/v1/models',
+    chatApi: 'openai',
+    chatEndpoint: '/v1/chat/completions',
+    allowedEndpoints: OPENAI_COMPATIBLE_ENDPOINTS,
+    headerPolicy: createHeaderPolicy(),
     requiresEndpointUrl: true,
   },
 ];
 
-export function getProviderById(id: LlmProvider): ProviderConfig | undefined {
-  return PROVIDERS.find((p) => p.id === id);
+export const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+// Custom providers speak the OpenAI chat API
+export const CUSTOM_PROVIDER_CHAT: Pick<ProviderConfig, 'chatApi' | 'chatEndpoint'> = {
+  chatApi: 'openai',
+  chatEndpoint: '/v1/chat/completions',
+};
+
+export function isCustomProviderId(id: string): id is CustomProviderId {
+  return id.startsWith(CUSTOM_PROVIDER_PREFIX);
+}
+
+/**
+ * Provider config for a custom provider. Its static headers are forced on every request.
+ */
+export function toProviderConfig(custom: CustomProvider): ProviderConfig {
+  return {
+    id: custom.id,
+    name: custom.name,
+    baseUrl: custom.baseUrl,
+    authHeader: custom.authHeader,
+    authPrefix: custom.authPrefix,
+    testEndpoint: custom.testEndpoint,
+    ...CUSTOM_PROVIDER_CHAT,
+    allowedEndpoints: OPENAI_COMPATIBLE_ENDPOINTS,
+    headerPolicy: createHeaderPolicy([], custom.headers),
+    requiresEndpointUrl: false,
+  };
+}
+
+/**
+ * Built-in providers followed by the user's custom providers.
+ */
+export function getAllProviders(customProviders: CustomProvider[] = []): ProviderConfig[] {
+  return [...PROVIDERS, ...customProviders.map(toProviderConfig)];
+}
+
+/**
+ * Host permission pattern covering a URL's host (any port).
+ */
+export function getHostPermissionPattern(url: string): string {
+  const { protocol, hostname } = new URL(url);
+  return `${protocol}//${hostname}/*`;
+}
+
+/**
+ * Host permission patterns for Bedrock inference and its control plane in a region.
+ */
+export function getBedrockHostPatterns(region: string): string[] {
+  return [
+    `https://bedrock-runtime.${region}.amazonaws.com/*`,
+    `https://bedrock.${region}.amazonaws.com/*`,
+  ];
+}
+
+/**
+ * Host permission patterns for the hosts a key itself points at: its endpoint URL or its
+ * Bedrock region. Throws if the endpoint URL is not a valid URL.
+ */
+export function getKeyHostPatterns(key: {
+  endpointUrl?: string;
+  aws?: { region: string };
+}): string[] {
+  if (key.aws) return getBedrockHostPatterns(key.aws.region);
+  return key.endpointUrl ? [getHostPermissionPattern(key.endpointUrl)] : [];
+}
+
+export function getProviderById(
+  id: LlmProvider,
+  customProviders: CustomProvider[] = []
+): ProviderConfig | undefined {
+  const builtIn = PROVIDERS.find((p) => p.id === id);
+  if (builtIn || !isCustomProviderId(id)) return builtIn;
+
+  const custom = customProviders.find((p) => p.id === id);
+  return custom && toProviderConfig(custom);
+}
+
+/**
+ * Check the "METHOD /path" format of an endpoint pattern.
+ */
+export function isEndpointPattern(pattern: string): boolean {
+  return /^(\*|GET|POST|PUT|PATCH|DELETE) \/\S*$/.test(pattern);
+}
+
+/**
+ * Whether a request method and path (without query string) match an endpoint pattern.
+ */
+export function matchesEndpointPattern(
+  pattern: EndpointPattern,
+  method: string,
+  path: string
+): boolean {
+  if (!isEndpointPattern(pattern)) return false;
+  const [patternMethod, patternPath] = pattern.split(' ');
+  if (patternMethod !== '*' && patternMethod !== method.toUpperCase()) return false;
+
+  const source = patternPath
+    .split(/(\*\*|\*)/)
+    .map((part) =>
+      part === '**' ? '.*' : part === '*' ? '[^/]+' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`).test(path);
 }
@@ -1,9 +1,32 @@
-import type { LlmProvider } from './providers';
+import type { CustomProvider, EndpointPattern, LlmProvider } from './providers';
+import type { TinylocketErrorCode } from './messages';
+import type { PriceOverride } from './pricing';
+import type { Budget, BudgetUsage } from './budgets';
+
+// Key derivation function used to turn the master password into a key
+export type KdfDescriptor =
+  | { algorithm: 'pbkdf2-sha256'; iterations: number }
+  | { algorithm: 'scrypt'; N: number; r: number; p: number }
+  | { algorithm: 'argon2id'; t: number; m: number; p: number }; // m is in KiB
+
+// Random data key, encrypted with a key derived from a secret (password or recovery code)
+export interface WrappedKey {
+  kdf: KdfDescriptor;
+  salt: string; // Base64 encoded salt
+  wrapped: string; // Base64 encoded encrypted data key
+  iv: string; // Base64 encoded IV
+}
 
 // Encrypted vault data
+// Versions 1-2 encrypt the payload with the password-derived key directly;
+// version 3 encrypts it with a random data key wrapped by the password and recovery code.
 export interface VaultData {
+  version?: number; // Missing on version 1 vaults
+  kdf?: KdfDescriptor; // Version 2 only (version 1 is PBKDF2-SHA256)
+  salt?: string; // Versions 1-2: Base64 encoded salt
+  passwordKey?: WrappedKey; // Version 3+
+  recoveryKey?: WrappedKey; // Version 3+, if a recovery code was generated
   encrypted: string; // Base64 encoded encrypted data
-  salt: string; // Base64 encoded salt
   iv: string; // Base64 encoded IV
   createdAt: number;
   updatedAt: number;
@@ -14,16 +37,62 @@ export interface ApiKeyEntry {
   id: string;
   provider: LlmProvider;
   name: string;
-  apiKey: string;
-  endpointUrl?: string; // For lm_studio
+  apiKey: string; // The secret access key for bedrock
+  endpointUrl?: string; // For lm_studio; the resource endpoint for azure_openai
+  azure?: AzureKeySettings; // For azure_openai
+  aws?: AwsKeySettings; // For bedrock
+  sessionToken?: string; // Bedrock temporary credentials; secret like apiKey
+  isDefault?: boolean; // Default key for its provider
+  lastValidatedAt?: number;
+  lastStatus?: KeyHealthStatus;
   createdAt: number;
   updatedAt: number;
 }
 
+// How an Azure OpenAI key routes OpenAI-style requests to its resource's deployments
+export interface AzureKeySettings {
+  deployments: Record<string, string>; // Model name to deployment name; unmapped models use their name
+  apiVersion: string; // Used unless the page passes an api-version query parameter
+}
+
+// The non-secret half of an AWS credential, and where to use it
+export interface AwsKeySettings {
+  accessKeyId: string;
+  region: string; // e.g. us-east-1
+}
+
+// Provider-specific key settings, given when a key is added
+export type KeySettings = Pick<ApiKeyEntry, 'endpointUrl' | 'azure' | 'aws' | 'sessionToken'>;
+
+// Result of the last "Test connection" call against the provider's testEndpoint
+export type KeyHealthStatus = 'valid' | 'invalid' | 'revoked' | 'rate_limited' | 'unreachable';
+
+export interface KeyValidationResult {
+  status: KeyHealthStatus;
+  httpStatus?: number;
+  message?: string;
+  validatedAt: number;
+}
+
+// API key entry as exposed outside the background worker (no raw secrets)
+export interface ApiKeySummary extends Omit<ApiKeyEntry, 'apiKey' | 'sessionToken'> {
+  keyHint: string; // Last characters of the key, for display only
+}
+
 // Whitelisted domain
 export interface WhitelistedDomain {
   domain: string;
   addedAt: number;
+  keyAssignments?: Partial<Record<LlmProvider, string>>; // Key id pinned per provider
+  rateLimit?: RateLimit; // Applies to all of the domain's requests combined
+  allowedEndpoints?: Partial<Record<LlmProvider, EndpointPattern[]>>; // Beyond the provider's defaults
+}
+
+// Request rate and concurrency limit; 0 disables either check
+export interface RateLimit {
+  requestsPerMinute: number;
+  maxConcurrent: number;
+  whenLimited: 'queue' | 'reject'; // Wait for a free slot, or fail with RATE_LIMITED
 }
 
 // Request history entry (metadata only, no payloads)
@@ -35,7 +104,70 @@ export interface RequestHistoryEntry {
   domain: string;
   status: number;
   durationMs: number;
-  tokensUsed?: number;
+  keyId?: string;
+  attempt?: number; // 1-based; retries of the same request get their own entries
+  errorCode?: TinylocketErrorCode; // Set when no complete provider response was received
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number; // Included in inputTokens
+  tokensUsed?: number; // inputTokens + outputTokens
+  estimatedCost?: number; // USD, priced when the request was made
+}
+
+// How handleRequest picks among several keys for the same provider
+export type KeySelectionStrategy = 'default' | 'round_robin' | 'failover';
+
+// Self-contained encrypted backup file (see BackupService)
+export interface VaultBackup {
+  format: 'tinylocket-backup';
+  version: number;
+  kdf: KdfDescriptor;
+  salt: string; // Base64 encoded salt
+  iv: string; // Base64 encoded IV
+  encrypted: string; // Base64 encoded encrypted BackupContents
+  createdAt: number;
+}
+
+// Decrypted contents of a backup file
+export interface BackupContents {
+  keys: ApiKeyEntry[];
+  whitelistedDomains: WhitelistedDomain[];
+  settings: ExtensionSettings;
+  requestHistory?: RequestHistoryEntry[];
+  customProviders?: CustomProvider[]; // Missing in backups made before custom providers
+}
+
+// How imported keys are combined with the current vault
+export type ImportMode = 'merge' | 'replace';
+
+// What to do with an imported key whose id already exists in the vault
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'keep_both';
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Failed unlock attempts, persisted so they survive popup and worker restarts
+export interface UnlockAttempts {
+  failedCount: number;
+  lockedUntil: number; // Timestamp before which no unlock is attempted (0 = none)
+}
+
+export interface UnlockResult {
+  success: boolean;
+  lockedUntil?: number; // Set when further attempts are temporarily blocked
+  attemptsRemaining?: number; // Set when the vault will be wiped after too many failures
+  wiped?: boolean; // The vault was erased after too many failures
+}
+
+// Unlocked session stored in chrome.storage.session (memory-only, cleared when the browser
+// closes). Lets the vault survive MV3 service worker restarts without a re-unlock.
+export interface SessionState {
+  wrappedKey?: string; // Base64 encoded vault key, AES-KW wrapped with the session's wrapping key
+  lastActivity?: number;
 }
 
 // Settings stored in chrome.storage.local
@@ -43,6 +175,12 @@ export interface ExtensionSettings {
   autoLockMinutes: number;
   historyEnabled: boolean;
   maxHistoryEntries: number;
+  maxUnlockAttempts: number; // Failures before the vault is wiped (if enabled)
+  wipeAfterMaxAttempts: boolean;
+  keySelectionStrategy: KeySelectionStrategy;
+  priceOverrides: PriceOverride[];
+  defaultRateLimit: RateLimit; // Given to newly whitelisted domains
+  providerRateLimits: Partial<Record<LlmProvider, RateLimit>>; // Across all domains
 }
 
 // All stored data structure
@@ -52,10 +190,20 @@ export interface StoredData {
   requestHistory: RequestHistoryEntry[];
   settings: ExtensionSettings;
   customEndpoints: Record<string, string>; // For lm_studio custom URLs
+  unlockAttempts: UnlockAttempts;
+  budgets: Budget[];
+  budgetUsage: Record<string, BudgetUsage>; // Keyed by budget id
+  customProviders: CustomProvider[];
 }
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
   autoLockMinutes: 30,
   historyEnabled: true,
   maxHistoryEntries: 1000,
+  maxUnlockAttempts: 10,
+  wipeAfterMaxAttempts: false,
+  keySelectionStrategy: 'default',
+  priceOverrides: [],
+  defaultRateLimit: { requestsPerMinute: 60, maxConcurrent: 4, whenLimited: 'queue' },
+  providerRateLimits: {},
 };